@@ -5,8 +5,11 @@ import { CssBaseline, Box } from '@mui/material';
 import Navigation from './components/Navigation';
 import URLShortenerPage from './pages/URLShortenerPage';
 import StatisticsPage from './pages/StatisticsPage';
+import SettingsPage from './pages/SettingsPage';
+import LinkDetailsPage from './pages/LinkDetailsPage';
 import RedirectHandler from './components/RedirectHandler';
 import { logger } from './services/loggingService';
+import { APP_ROUTES } from './utils/routes';
 
 // Create Material-UI theme
 const theme = createTheme({
@@ -84,9 +87,12 @@ function App() {
         <Box sx={{ minHeight: '100vh', backgroundColor: 'background.default' }}>
           <Navigation />
           <Routes>
-            <Route path="/" element={<URLShortenerPage />} />
-            <Route path="/statistics" element={<StatisticsPage />} />
-            <Route path="/:shortCode" element={<RedirectHandler />} />
+            <Route path={APP_ROUTES.home} element={<URLShortenerPage />} />
+            <Route path={APP_ROUTES.statistics} element={<StatisticsPage />} />
+            {/* Two segments, so it never competes with the single-segment redirect route below */}
+            <Route path={APP_ROUTES.linkDetails} element={<LinkDetailsPage />} />
+            <Route path={APP_ROUTES.settings} element={<SettingsPage />} />
+            <Route path={APP_ROUTES.redirect} element={<RedirectHandler />} />
           </Routes>
         </Box>
       </Router>
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Paper, Typography } from '@mui/material';
+
+interface ActivationCountdownProps {
+  activatesAt: Date;
+  onActivated: () => void;
+}
+
+const ActivationCountdown: React.FC<ActivationCountdownProps> = ({ activatesAt, onActivated }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingSeconds = Math.max(0, Math.ceil((activatesAt.getTime() - now) / 1000));
+
+  useEffect(() => {
+    if (remainingSeconds === 0) {
+      onActivated();
+    }
+  }, [remainingSeconds, onActivated]);
+
+  const units = [
+    { label: 'Days', value: Math.floor(remainingSeconds / 86400) },
+    { label: 'Hours', value: Math.floor((remainingSeconds % 86400) / 3600) },
+    { label: 'Minutes', value: Math.floor((remainingSeconds % 3600) / 60) },
+    { label: 'Seconds', value: remainingSeconds % 60 }
+  ];
+
+  return (
+    <Box display="flex" gap={2} justifyContent="center">
+      {units.map(unit => (
+        <Paper key={unit.label} variant="outlined" sx={{ px: 2, py: 1.5, minWidth: 72, textAlign: 'center' }}>
+          <Typography variant="h4" sx={{ fontFamily: 'monospace' }}>
+            {unit.value.toString().padStart(2, '0')}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {unit.label}
+          </Typography>
+        </Paper>
+      ))}
+    </Box>
+  );
+};
+
+export default ActivationCountdown;
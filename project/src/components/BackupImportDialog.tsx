@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper
+} from '@mui/material';
+import { Upload } from 'lucide-react';
+import { BackupConflict, BackupImportSummary, ConflictResolution, ShortenedURL } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { parseBackup, findBackupConflicts } from '../utils/backup';
+
+interface BackupImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (summary: BackupImportSummary) => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  skip: 'Skip (keep existing)',
+  overwrite: 'Overwrite existing',
+  rename: 'Import with new code'
+};
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ open, onClose, onImported }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [incoming, setIncoming] = useState<ShortenedURL[]>([]);
+  const [conflicts, setConflicts] = useState<BackupConflict[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFileName(null);
+      setIncoming([]);
+      setConflicts([]);
+      setResolutions({});
+      setErrors([]);
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      const parsed = parseBackup(await file.text());
+      const foundConflicts = findBackupConflicts(parsed.urls, urlService.getAllURLs());
+      setFileName(file.name);
+      setErrors(parsed.errors);
+      setIncoming(parsed.urls);
+      setConflicts(foundConflicts);
+      setResolutions(Object.fromEntries(foundConflicts.map(conflict => [conflict.incoming.id, 'skip' as const])));
+      logger.info('Backup file loaded', 'BackupImportDialog', {
+        fileName: file.name,
+        links: parsed.urls.length,
+        conflicts: foundConflicts.length,
+        errors: parsed.errors.length
+      });
+    } catch (error) {
+      setErrors(['Could not read the selected file']);
+      logger.error('Failed to read backup file', 'BackupImportDialog', { fileName: file.name, error });
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const applyToAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.incoming.id, resolution])));
+  };
+
+  const handleImport = async () => {
+    try {
+      const summary = await urlService.importBackup(incoming, resolutions);
+      onImported(summary);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to import backup';
+      setErrors([errorMessage]);
+      logger.error('Backup import failed', 'BackupImportDialog', { error: errorMessage });
+    }
+  };
+
+  const canImport = incoming.length > 0 && errors.length === 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Backup</DialogTitle>
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} pt={1}>
+          <Box display="flex" alignItems="center" gap={2}>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+            <Button
+              variant="outlined"
+              startIcon={<Upload size={18} />}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose Backup File
+            </Button>
+            {fileName && (
+              <Typography variant="body2" color="text.secondary">
+                Loaded {fileName}
+              </Typography>
+            )}
+          </Box>
+
+          {errors.length > 0 && (
+            <Alert severity="error">
+              <Typography variant="body2" fontWeight="bold">
+                This backup cannot be imported:
+              </Typography>
+              {errors.slice(0, 10).map(error => (
+                <Typography key={error} variant="body2">
+                  {error}
+                </Typography>
+              ))}
+              {errors.length > 10 && (
+                <Typography variant="body2">...and {errors.length - 10} more</Typography>
+              )}
+            </Alert>
+          )}
+
+          {canImport && (
+            <Alert severity={conflicts.length > 0 ? 'warning' : 'success'}>
+              {incoming.length} link{incoming.length === 1 ? '' : 's'} found.
+              {conflicts.length > 0
+                ? ` ${conflicts.length} use a shortcode that already exists. Choose how to handle each one below.`
+                : ' None of them conflict with existing links.'}
+            </Alert>
+          )}
+
+          {canImport && conflicts.length > 0 && (
+            <>
+              <Box display="flex" alignItems="center" gap={1}>
+                <Typography variant="body2" color="text.secondary">
+                  Apply to all:
+                </Typography>
+                {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                  <Button key={resolution} size="small" onClick={() => applyToAll(resolution)}>
+                    {resolution}
+                  </Button>
+                ))}
+              </Box>
+
+              <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 360 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Shortcode</TableCell>
+                      <TableCell>Existing destination</TableCell>
+                      <TableCell>Backup destination</TableCell>
+                      <TableCell>Action</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {conflicts.map(({ incoming: incomingUrl, existing }) => (
+                      <TableRow key={incomingUrl.id}>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{incomingUrl.shortCode}</TableCell>
+                        <TableCell sx={{ maxWidth: 200, wordBreak: 'break-all' }}>{existing.originalUrl}</TableCell>
+                        <TableCell sx={{ maxWidth: 200, wordBreak: 'break-all' }}>{incomingUrl.originalUrl}</TableCell>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            value={resolutions[incomingUrl.id] || 'skip'}
+                            onChange={(e) => setResolutions({
+                              ...resolutions,
+                              [incomingUrl.id]: e.target.value as ConflictResolution
+                            })}
+                            sx={{ minWidth: 190 }}
+                          >
+                            {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                              <MenuItem key={resolution} value={resolution}>
+                                {RESOLUTION_LABELS[resolution]}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={!canImport} onClick={handleImport}>
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BackupImportDialog;
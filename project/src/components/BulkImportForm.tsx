@@ -0,0 +1,197 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper
+} from '@mui/material';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+import { URLFormData } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { parseBulkImport } from '../utils/bulkImport';
+import { filterByDomain } from '../utils/domains';
+
+interface BulkImportFormProps {
+  onSubmit: (urls: URLFormData[]) => void;
+  isLoading: boolean;
+}
+
+const BulkImportForm: React.FC<BulkImportFormProps> = ({ onSubmit, isLoading }) => {
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(
+    () => (rawText.trim() ? parseBulkImport(rawText, filterByDomain(urlService.getAllURLs())) : []),
+    [rawText]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    try {
+      setRawText(await file.text());
+      setFileName(file.name);
+      logger.info('Bulk import file loaded', 'BulkImportForm', { fileName: file.name, size: file.size });
+    } catch (error) {
+      logger.error('Failed to read bulk import file', 'BulkImportForm', { fileName: file.name, error });
+    } finally {
+      // Allow re-selecting the same file after edits
+      e.target.value = '';
+    }
+  };
+
+  const handleSubmit = () => {
+    if (validRows.length === 0) {
+      logger.warn('Bulk import submitted without valid rows', 'BulkImportForm');
+      return;
+    }
+
+    logger.info('Submitting bulk import', 'BulkImportForm', {
+      validRows: validRows.length,
+      skippedRows: invalidCount
+    });
+    onSubmit(validRows.map(row => row.formData));
+  };
+
+  return (
+    <Card elevation={3}>
+      <CardContent>
+        <Box display="flex" alignItems="center" mb={3}>
+          <FileSpreadsheet size={24} style={{ marginRight: 8 }} />
+          <Typography variant="h5" component="h2">
+            Bulk Import
+          </Typography>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Paste CSV or TSV rows, or upload a file. Columns: <strong>url, validity, custom shortcode, tags</strong>.
+          A header row is optional; separate multiple tags with semicolons.
+        </Typography>
+
+        <Box display="flex" flexDirection="column" gap={2}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={6}
+            maxRows={14}
+            placeholder={'url,validity,shortcode,tags\nhttps://example.com/spring,1440,spring24,promo;email'}
+            value={rawText}
+            onChange={(e) => {
+              setRawText(e.target.value);
+              setFileName(null);
+            }}
+            sx={{ '& textarea': { fontFamily: 'monospace' } }}
+          />
+
+          <Box display="flex" alignItems="center" gap={2}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              hidden
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outlined"
+              startIcon={<Upload size={18} />}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Upload File
+            </Button>
+            {fileName && (
+              <Typography variant="body2" color="text.secondary">
+                Loaded {fileName}
+              </Typography>
+            )}
+          </Box>
+
+          {rows.length > 0 && (
+            <>
+              <Alert severity={invalidCount > 0 ? 'warning' : 'success'}>
+                {validRows.length} of {rows.length} rows are ready to import.
+                {invalidCount > 0 && ` ${invalidCount} row${invalidCount === 1 ? '' : 's'} with errors will be skipped.`}
+              </Alert>
+
+              <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 400 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>#</TableCell>
+                      <TableCell>URL</TableCell>
+                      <TableCell>Validity</TableCell>
+                      <TableCell>Shortcode</TableCell>
+                      <TableCell>Tags</TableCell>
+                      <TableCell>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.rowNumber} sx={row.errors.length > 0 ? { backgroundColor: '#fdecea' } : undefined}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell
+                          sx={{ maxWidth: 220, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                          title={row.formData.originalUrl}
+                        >
+                          {row.formData.originalUrl}
+                        </TableCell>
+                        <TableCell>{Number.isNaN(row.formData.validityMinutes) ? '—' : row.formData.validityMinutes}</TableCell>
+                        <TableCell sx={{ fontFamily: 'monospace' }}>{row.formData.customShortcode || 'auto'}</TableCell>
+                        <TableCell>{row.formData.tags?.join(', ')}</TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Chip label="OK" size="small" color="success" />
+                          ) : (
+                            <Box display="flex" flexDirection="column" gap={0.5}>
+                              {row.errors.map(error => (
+                                <Typography key={error} variant="caption" color="error">
+                                  {error}
+                                </Typography>
+                              ))}
+                            </Box>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
+          <Button
+            variant="contained"
+            size="large"
+            disabled={isLoading || validRows.length === 0}
+            onClick={handleSubmit}
+            fullWidth
+            sx={{ py: 1.5 }}
+          >
+            {isLoading
+              ? 'Creating links...'
+              : `Create ${validRows.length} Link${validRows.length === 1 ? '' : 's'}`}
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkImportForm;
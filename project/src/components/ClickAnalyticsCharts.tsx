@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert
+} from '@mui/material';
+import { ClickData, DateRange, TimeBucket } from '../types';
+import {
+  RANGE_PRESETS,
+  RangePreset,
+  MAX_CHART_BUCKETS,
+  getPresetRange,
+  countBuckets,
+  filterClicksInRange,
+  buildClickTimeSeries,
+  buildHourWeekdayHeatmap
+} from '../utils/timeSeries';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/dateTime';
+import TimeSeriesChart from './TimeSeriesChart';
+import ClickHeatmap from './ClickHeatmap';
+
+interface ClickAnalyticsChartsProps {
+  clicks: ClickData[];
+  variant?: 'outlined' | 'elevation';
+}
+
+const ClickAnalyticsCharts: React.FC<ClickAnalyticsChartsProps> = ({ clicks, variant = 'elevation' }) => {
+  const [preset, setPreset] = useState<RangePreset>('7d');
+  const [bucket, setBucket] = useState<TimeBucket>('day');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getPresetRange('30d', clicks));
+
+  // Bot traffic would otherwise dominate the shape of the chart for links shared in chat tools
+  const humanClicks = useMemo(() => clicks.filter(click => !click.isBot), [clicks]);
+  const range = useMemo(
+    () => (preset === 'custom' ? customRange : getPresetRange(preset, humanClicks)),
+    [preset, customRange, humanClicks]
+  );
+
+  const tooManyBuckets = countBuckets(range, bucket) > MAX_CHART_BUCKETS;
+  const points = useMemo(
+    () => (tooManyBuckets ? [] : buildClickTimeSeries(humanClicks, bucket, range)),
+    [humanClicks, bucket, range, tooManyBuckets]
+  );
+  const rangeClicks = useMemo(() => filterClicksInRange(humanClicks, range), [humanClicks, range]);
+  const heatmap = useMemo(() => buildHourWeekdayHeatmap(rangeClicks), [rangeClicks]);
+
+  const handlePresetChange = (value: RangePreset) => {
+    setPreset(value);
+    const option = RANGE_PRESETS.find(candidate => candidate.value === value);
+    if (option && value !== 'custom') {
+      setBucket(option.bucket);
+    }
+  };
+
+  const handleCustomChange = (field: keyof DateRange, value: string) => {
+    const date = fromDateTimeLocalValue(value);
+    if (date) {
+      setCustomRange(current => ({ ...current, [field]: date }));
+    }
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+        <TextField
+          select
+          size="small"
+          label="Range"
+          value={preset}
+          onChange={(e) => handlePresetChange(e.target.value as RangePreset)}
+          sx={{ minWidth: 160 }}
+        >
+          {RANGE_PRESETS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+
+        {preset === 'custom' && (
+          <>
+            <TextField
+              size="small"
+              type="datetime-local"
+              label="From"
+              value={toDateTimeLocalValue(customRange.start)}
+              onChange={(e) => handleCustomChange('start', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              size="small"
+              type="datetime-local"
+              label="To"
+              value={toDateTimeLocalValue(customRange.end)}
+              onChange={(e) => handleCustomChange('end', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </>
+        )}
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={bucket}
+          onChange={(_, value: TimeBucket | null) => value && setBucket(value)}
+        >
+          <ToggleButton value="hour">Hourly</ToggleButton>
+          <ToggleButton value="day">Daily</ToggleButton>
+          <ToggleButton value="week">Weekly</ToggleButton>
+        </ToggleButtonGroup>
+
+        <Typography variant="body2" color="text.secondary">
+          {rangeClicks.length} click{rangeClicks.length === 1 ? '' : 's'} in range (bots excluded)
+        </Typography>
+      </Box>
+
+      {range.start >= range.end ? (
+        <Alert severity="warning">The start of the range must be before its end.</Alert>
+      ) : (
+        <Box display="flex" gap={2} flexWrap="wrap">
+          <Card variant={variant} sx={{ flex: '2 1 420px' }}>
+            <CardContent>
+              <Typography variant="subtitle1" gutterBottom>
+                Clicks over time
+              </Typography>
+              {tooManyBuckets ? (
+                <Alert severity="info">
+                  This range has too many {bucket}s to chart. Choose a coarser interval or a shorter range.
+                </Alert>
+              ) : (
+                <TimeSeriesChart points={points} bucket={bucket} />
+              )}
+            </CardContent>
+          </Card>
+          <Card variant={variant} sx={{ flex: '1 1 320px' }}>
+            <CardContent>
+              <Typography variant="subtitle1" gutterBottom>
+                Hour of day × day of week
+              </Typography>
+              <ClickHeatmap counts={heatmap} />
+            </CardContent>
+          </Card>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ClickAnalyticsCharts;
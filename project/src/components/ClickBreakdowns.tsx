@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Box, Card, CardContent, LinearProgress, Typography } from '@mui/material';
+import { Globe, MapPin, Monitor, Share2, Smartphone } from 'lucide-react';
+import { BreakdownEntry, ClickData } from '../types';
+import { getClickBreakdown, BreakdownDimension } from '../utils/clickBreakdown';
+
+interface ClickBreakdownsProps {
+  clicks: ClickData[];
+  dimensions?: BreakdownDimension[];
+  variant?: 'outlined' | 'elevation';
+}
+
+const MAX_ENTRIES = 6;
+
+const PANELS: { dimension: BreakdownDimension; title: string; icon: React.ReactNode }[] = [
+  { dimension: 'source', title: 'Sources', icon: <Share2 size={18} /> },
+  { dimension: 'location', title: 'Locations', icon: <MapPin size={18} /> },
+  { dimension: 'browser', title: 'Browsers', icon: <Globe size={18} /> },
+  { dimension: 'os', title: 'Operating Systems', icon: <Monitor size={18} /> },
+  { dimension: 'device', title: 'Devices', icon: <Smartphone size={18} /> }
+];
+
+const DEFAULT_DIMENSIONS: BreakdownDimension[] = ['browser', 'os', 'device'];
+
+const BreakdownList: React.FC<{ entries: BreakdownEntry[] }> = ({ entries }) => {
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No clicks yet
+      </Typography>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1.5}>
+      {entries.slice(0, MAX_ENTRIES).map(entry => (
+        <Box key={entry.label}>
+          <Box display="flex" justifyContent="space-between">
+            <Typography variant="body2">{entry.label}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {entry.count} ({entry.percentage}%)
+            </Typography>
+          </Box>
+          <LinearProgress variant="determinate" value={entry.percentage} sx={{ height: 6, borderRadius: 3 }} />
+        </Box>
+      ))}
+      {entries.length > MAX_ENTRIES && (
+        <Typography variant="caption" color="text.secondary">
+          +{entries.length - MAX_ENTRIES} more
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+const ClickBreakdowns: React.FC<ClickBreakdownsProps> = ({
+  clicks,
+  dimensions = DEFAULT_DIMENSIONS,
+  variant = 'elevation'
+}) => {
+  const breakdowns = useMemo(
+    () => PANELS
+      .filter(panel => dimensions.includes(panel.dimension))
+      .map(panel => ({ ...panel, entries: getClickBreakdown(clicks, panel.dimension) })),
+    [clicks, dimensions]
+  );
+
+  return (
+    <Box display="flex" gap={2} flexWrap="wrap">
+      {breakdowns.map(panel => (
+        <Card key={panel.dimension} variant={variant} sx={{ flex: '1 1 220px' }}>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              {panel.icon}
+              <Typography variant="subtitle1">{panel.title}</Typography>
+            </Box>
+            <BreakdownList entries={panel.entries} />
+          </CardContent>
+        </Card>
+      ))}
+    </Box>
+  );
+};
+
+export default ClickBreakdowns;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { WEEKDAY_LABELS } from '../utils/timeSeries';
+
+interface ClickHeatmapProps {
+  counts: number[][];
+}
+
+const CELL = 24;
+const GAP = 2;
+const LEFT = 36;
+const TOP = 16;
+
+const ClickHeatmap: React.FC<ClickHeatmapProps> = ({ counts }) => {
+  const maxCount = Math.max(1, ...counts.flat());
+  const width = LEFT + 24 * (CELL + GAP);
+  const height = TOP + counts.length * (CELL + GAP);
+
+  return (
+    <Box sx={{ width: '100%', overflowX: 'auto' }}>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width="100%"
+        role="img"
+        aria-label="Clicks by hour of day and day of week"
+        style={{ display: 'block', maxWidth: width * 1.2 }}
+      >
+        {Array.from({ length: 24 }, (_, hour) => hour % 3 === 0 && (
+          <text
+            key={hour}
+            x={LEFT + hour * (CELL + GAP) + CELL / 2}
+            y={TOP - 4}
+            textAnchor="middle"
+            fontSize={9}
+            fill="#757575"
+          >
+            {hour.toString().padStart(2, '0')}
+          </text>
+        ))}
+
+        {counts.map((row, weekday) => (
+          <g key={WEEKDAY_LABELS[weekday]}>
+            <text
+              x={LEFT - 6}
+              y={TOP + weekday * (CELL + GAP) + CELL / 2}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="#757575"
+            >
+              {WEEKDAY_LABELS[weekday]}
+            </text>
+            {row.map((count, hour) => (
+              <rect
+                key={hour}
+                x={LEFT + hour * (CELL + GAP)}
+                y={TOP + weekday * (CELL + GAP)}
+                width={CELL}
+                height={CELL}
+                rx={3}
+                fill={count === 0 ? '#f0f0f0' : `rgba(25, 118, 210, ${0.15 + 0.85 * (count / maxCount)})`}
+              >
+                <title>{`${WEEKDAY_LABELS[weekday]} ${hour.toString().padStart(2, '0')}:00 — ${count} click${count === 1 ? '' : 's'}`}</title>
+              </rect>
+            ))}
+          </g>
+        ))}
+      </svg>
+    </Box>
+  );
+};
+
+export default ClickHeatmap;
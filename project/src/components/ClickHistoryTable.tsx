@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Typography,
+  Chip
+} from '@mui/material';
+import { ClickData } from '../types';
+import { formatDateTime } from '../utils/dateTime';
+import { getClickUserAgent, formatUserAgent } from '../utils/userAgentParser';
+
+const ROWS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
+
+interface ClickHistoryTableProps {
+  clicks: ClickData[];
+  defaultRowsPerPage?: number;
+}
+
+const ClickHistoryTable: React.FC<ClickHistoryTableProps> = ({ clicks, defaultRowsPerPage = 10 }) => {
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(defaultRowsPerPage);
+
+  // Newest first; copied so the caller's click array keeps its stored order
+  const sortedClicks = useMemo(
+    () => [...clicks].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+    [clicks]
+  );
+  const pageClicks = sortedClicks.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Timestamp</TableCell>
+              <TableCell>Source</TableCell>
+              <TableCell>Location</TableCell>
+              <TableCell>Browser / Device</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {pageClicks.map((click) => (
+              <TableRow key={click.id}>
+                <TableCell>
+                  <Typography variant="body2">
+                    {formatDateTime(click.timestamp)}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Chip 
+                    label={click.source} 
+                    size="small" 
+                    variant="outlined" 
+                  />
+                  {click.isBot && (
+                    <Chip label="Bot" size="small" sx={{ ml: 0.5 }} />
+                  )}
+                  {click.isDuplicate && (
+                    <Chip label="Repeat" size="small" color="info" variant="outlined" sx={{ ml: 0.5 }} />
+                  )}
+                  {click.isDemo && (
+                    <Chip label="Demo" size="small" color="warning" sx={{ ml: 0.5 }} />
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">
+                    {click.location}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography 
+                    variant="body2" 
+                    sx={{ 
+                      maxWidth: 200, 
+                      overflow: 'hidden', 
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap'
+                    }}
+                    title={click.userAgent}
+                  >
+                    {formatUserAgent(getClickUserAgent(click))}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {clicks.length > ROWS_PER_PAGE_OPTIONS[0] && (
+        <TablePagination
+          component="div"
+          count={clicks.length}
+          page={page}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
+        />
+      )}
+    </>
+  );
+};
+
+export default ClickHistoryTable;
@@ -0,0 +1,40 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button
+} from '@mui/material';
+import { ShortenedURL } from '../types';
+
+interface DeleteURLDialogProps {
+  url: ShortenedURL | null;
+  onClose: () => void;
+  onConfirm: (url: ShortenedURL) => void;
+}
+
+const DeleteURLDialog: React.FC<DeleteURLDialogProps> = ({ url, onClose, onConfirm }) => {
+  return (
+    <Dialog open={!!url} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Delete Short Link?</DialogTitle>
+      <DialogContent>
+        {url && (
+          <DialogContentText>
+            The short link <strong>{url.shortCode}</strong> and its {url.clicks.length} recorded
+            click{url.clicks.length === 1 ? '' : 's'} will be permanently removed. This cannot be undone.
+          </DialogContentText>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button color="error" variant="contained" onClick={() => url && onConfirm(url)}>
+          Delete
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeleteURLDialog;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Typography
+} from '@mui/material';
+import { ShortenedURL, URLFormData } from '../types';
+import { urlService } from '../services/urlService';
+import { validateURL, validateShortcode, validateShortcodeFormat, validateTags, validateFolder, validateNote } from '../utils/validation';
+import { logger } from '../services/loggingService';
+import LinkOrganizationFields from './LinkOrganizationFields';
+
+interface EditURLDialogProps {
+  url: ShortenedURL | null;
+  onClose: () => void;
+  onSaved: (url: ShortenedURL) => void;
+}
+
+interface EditFormErrors {
+  originalUrl?: string;
+  shortCode?: string;
+  tags?: string;
+  folder?: string;
+  note?: string;
+}
+
+const EditURLDialog: React.FC<EditURLDialogProps> = ({ url, onClose, onSaved }) => {
+  const [originalUrl, setOriginalUrl] = useState('');
+  const [shortCode, setShortCode] = useState('');
+  const [organization, setOrganization] = useState<Pick<URLFormData, 'tags' | 'folder' | 'note'>>({});
+  const [errors, setErrors] = useState<EditFormErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (url) {
+      setOriginalUrl(url.originalUrl);
+      setShortCode(url.shortCode);
+      setOrganization({ tags: url.tags || [], folder: url.folder || '', note: url.note || '' });
+      setErrors({});
+      setSubmitError(null);
+      logger.info('Edit dialog opened', 'EditURLDialog', { shortCode: url.shortCode });
+    }
+  }, [url]);
+
+  const validate = (): boolean => {
+    const newErrors: EditFormErrors = {};
+
+    const urlValidation = validateURL(originalUrl.trim());
+    if (!urlValidation.isValid) {
+      newErrors.originalUrl = urlValidation.error;
+    }
+
+    if (!shortCode.trim()) {
+      newErrors.shortCode = 'Shortcode is required';
+    } else {
+      // An unchanged code may predate the current reserved or blocked word lists, and keeping it is always allowed
+      const trimmedShortCode = shortCode.trim();
+      const shortcodeValidation = trimmedShortCode === url?.shortCode
+        ? validateShortcodeFormat(trimmedShortCode)
+        : validateShortcode(trimmedShortCode);
+      if (!shortcodeValidation.isValid) {
+        newErrors.shortCode = shortcodeValidation.error;
+      }
+    }
+
+    const tagsValidation = validateTags(organization.tags);
+    if (!tagsValidation.isValid) {
+      newErrors.tags = tagsValidation.error;
+    }
+
+    const folderValidation = validateFolder(organization.folder);
+    if (!folderValidation.isValid) {
+      newErrors.folder = folderValidation.error;
+    }
+
+    const noteValidation = validateNote(organization.note);
+    if (!noteValidation.isValid) {
+      newErrors.note = noteValidation.error;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = () => {
+    if (!url) {
+      return;
+    }
+
+    if (!validate()) {
+      logger.warn('Edit validation failed', 'EditURLDialog', { shortCode: url.shortCode });
+      return;
+    }
+
+    try {
+      const updated = urlService.updateURL(url.id, {
+        originalUrl: originalUrl.trim(),
+        shortCode: shortCode.trim(),
+        tags: organization.tags || [],
+        folder: organization.folder || '',
+        note: organization.note || ''
+      });
+      onSaved(updated);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update URL';
+      setSubmitError(errorMessage);
+      logger.error('Failed to update URL', 'EditURLDialog', { id: url.id, error: errorMessage });
+    }
+  };
+
+  return (
+    <Dialog open={!!url} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Edit Short Link</DialogTitle>
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} pt={1}>
+          {submitError && (
+            <Alert severity="error" onClose={() => setSubmitError(null)}>
+              {submitError}
+            </Alert>
+          )}
+
+          <TextField
+            fullWidth
+            label="Destination URL"
+            value={originalUrl}
+            onChange={(e) => {
+              setOriginalUrl(e.target.value);
+              setErrors({ ...errors, originalUrl: undefined });
+            }}
+            error={!!errors.originalUrl}
+            helperText={errors.originalUrl}
+            required
+          />
+
+          <TextField
+            fullWidth
+            label="Short Code"
+            value={shortCode}
+            onChange={(e) => {
+              setShortCode(e.target.value);
+              setErrors({ ...errors, shortCode: undefined });
+            }}
+            error={!!errors.shortCode}
+            helperText={errors.shortCode || 'Renaming the code breaks links that use the old one'}
+            required
+          />
+
+          <LinkOrganizationFields
+            value={organization}
+            onChange={(changes) => {
+              setOrganization({ ...organization, ...changes });
+              setErrors({ ...errors, tags: undefined, folder: undefined, note: undefined });
+            }}
+            errors={errors}
+          />
+
+          {url && (
+            <Typography variant="body2" color="text.secondary">
+              Existing click history ({url.clicks.length} clicks) is kept after saving.
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave}>
+          Save Changes
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EditURLDialog;
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Alert,
+  Chip,
+  Divider
+} from '@mui/material';
+import { CalendarPlus, CalendarX, Power } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/dateTime';
+import { validateValidityMinutes } from '../utils/validation';
+import { getURLStatus, URL_STATUS_DISPLAY } from '../utils/urlStatus';
+
+interface ExpiryDialogProps {
+  url: ShortenedURL | null;
+  onClose: () => void;
+  onUpdated: (url: ShortenedURL) => void;
+}
+
+const QUICK_ADJUSTMENTS = [
+  { label: '-1 hour', minutes: -60 },
+  { label: '+1 hour', minutes: 60 },
+  { label: '+1 day', minutes: 60 * 24 },
+  { label: '+1 week', minutes: 60 * 24 * 7 }
+];
+
+const ExpiryDialog: React.FC<ExpiryDialogProps> = ({ url, onClose, onUpdated }) => {
+  const [customExpiry, setCustomExpiry] = useState('');
+  const [reactivateMinutes, setReactivateMinutes] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (url) {
+      setCustomExpiry(toDateTimeLocalValue(url.expiresAt));
+      setReactivateMinutes(30);
+      setError(null);
+    }
+  }, [url]);
+
+  const runAction = (action: string, update: (id: string) => ShortenedURL) => {
+    if (!url) {
+      return;
+    }
+
+    try {
+      const updated = update(url.id);
+      setError(null);
+      setCustomExpiry(toDateTimeLocalValue(updated.expiresAt));
+      onUpdated(updated);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update expiry';
+      setError(errorMessage);
+      logger.error('Expiry update failed', 'ExpiryDialog', { id: url.id, action, error: errorMessage });
+    }
+  };
+
+  const handleSetExpiry = () => {
+    const expiresAt = fromDateTimeLocalValue(customExpiry);
+    if (!expiresAt) {
+      setError('Please enter a valid date and time');
+      return;
+    }
+    runAction('set', id => urlService.setExpiry(id, expiresAt));
+  };
+
+  const handleReactivate = () => {
+    const validation = validateValidityMinutes(reactivateMinutes);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid validity');
+      return;
+    }
+    runAction('reactivate', id => urlService.reactivateURL(id, reactivateMinutes));
+  };
+
+  const status = url ? getURLStatus(url) : 'active';
+  const isExpired = status === 'expired';
+
+  return (
+    <Dialog open={!!url} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Manage Expiry{url ? `: ${url.shortCode}` : ''}</DialogTitle>
+      <DialogContent>
+        {url && (
+          <Box display="flex" flexDirection="column" gap={3} pt={1}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <Box display="flex" alignItems="center" gap={1}>
+              <Typography variant="body2" color="text.secondary">
+                Currently expires:
+              </Typography>
+              <Typography variant="body2" color={isExpired ? 'error.main' : 'text.primary'}>
+                {url.expiresAt.toLocaleString()}
+              </Typography>
+              <Chip
+                label={URL_STATUS_DISPLAY[status].label}
+                size="small"
+                color={URL_STATUS_DISPLAY[status].color}
+              />
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Adjust current expiry
+              </Typography>
+              <Box display="flex" gap={1} flexWrap="wrap">
+                {QUICK_ADJUSTMENTS.map(adjustment => (
+                  <Button
+                    key={adjustment.label}
+                    size="small"
+                    variant="outlined"
+                    onClick={() => runAction('extend', id => urlService.extendExpiry(id, adjustment.minutes))}
+                  >
+                    {adjustment.label}
+                  </Button>
+                ))}
+              </Box>
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="flex-start">
+              <TextField
+                label="Expires at"
+                type="datetime-local"
+                value={customExpiry}
+                onChange={(e) => setCustomExpiry(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                sx={{ flex: 1 }}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<CalendarPlus size={16} />}
+                onClick={handleSetExpiry}
+                sx={{ mt: 1 }}
+              >
+                Set Expiry
+              </Button>
+            </Box>
+
+            <Divider />
+
+            {isExpired ? (
+              <Box display="flex" gap={2} alignItems="flex-start">
+                <TextField
+                  label="Reactivate for (minutes)"
+                  type="number"
+                  value={reactivateMinutes}
+                  onChange={(e) => setReactivateMinutes(parseInt(e.target.value) || 30)}
+                  inputProps={{ min: 1, max: 43200 }}
+                  sx={{ flex: 1 }}
+                />
+                <Button
+                  variant="contained"
+                  color="success"
+                  startIcon={<Power size={16} />}
+                  onClick={handleReactivate}
+                  sx={{ mt: 1 }}
+                >
+                  Reactivate
+                </Button>
+              </Box>
+            ) : (
+              <Box display="flex" justifyContent="space-between" alignItems="center" gap={2}>
+                <Typography variant="body2" color="text.secondary">
+                  Revoking expires the link immediately. It can be reactivated later.
+                </Typography>
+                <Button
+                  variant="contained"
+                  color="error"
+                  startIcon={<CalendarX size={16} />}
+                  onClick={() => runAction('revoke', id => urlService.revokeURL(id))}
+                >
+                  Revoke Now
+                </Button>
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExpiryDialog;
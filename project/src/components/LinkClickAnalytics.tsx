@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { Alert, Box, Card, CardContent, Typography } from '@mui/material';
+import { ShortenedURL } from '../types';
+import { getClickMetrics, countLimitedClicks } from '../utils/clickMetrics';
+import { BreakdownDimension } from '../utils/clickBreakdown';
+import ClickAnalyticsCharts from './ClickAnalyticsCharts';
+import ClickBreakdowns from './ClickBreakdowns';
+import ClickHistoryTable from './ClickHistoryTable';
+import SplitTestResults from './SplitTestResults';
+
+interface LinkClickAnalyticsProps {
+  url: ShortenedURL;
+  dimensions?: BreakdownDimension[];
+  historyRowsPerPage?: number;
+  variant?: 'outlined' | 'elevation';
+}
+
+const LinkClickAnalytics: React.FC<LinkClickAnalyticsProps> = ({
+  url,
+  dimensions,
+  historyRowsPerPage,
+  variant = 'outlined'
+}) => {
+  const metrics = useMemo(() => getClickMetrics(url.clicks), [url.clicks]);
+
+  return (
+    <Card variant={variant}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Click Analytics ({metrics.rawClicks} total clicks)
+        </Typography>
+        {(metrics.rawClicks > 0 || metrics.demoClicks > 0) && (
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            {metrics.uniqueVisitors} unique visitors
+            {' · '}{metrics.duplicateClicks} repeat clicks
+            {' · '}{metrics.botClicks} bot clicks
+            {metrics.demoClicks > 0 && ` · charts and history also show ${metrics.demoClicks} demo clicks, which are not counted`}
+          </Typography>
+        )}
+
+        {url.maxClicks !== undefined && (
+          <Alert
+            severity={countLimitedClicks(url.clicks) >= url.maxClicks ? 'warning' : 'info'}
+            sx={{ mb: 2 }}
+          >
+            {url.maxClicks === 1 ? 'One-time link' : `Limited to ${url.maxClicks} clicks`}
+            {' — '}
+            {countLimitedClicks(url.clicks) >= url.maxClicks
+              ? 'limit reached, further visits are refused.'
+              : `${url.maxClicks - countLimitedClicks(url.clicks)} remaining.`}
+          </Alert>
+        )}
+        
+        {url.clicks.length === 0 ? (
+          <Alert severity="info">
+            No clicks recorded yet for this URL.
+          </Alert>
+        ) : (
+          <>
+            <Box mb={2}>
+              <ClickAnalyticsCharts clicks={url.clicks} variant="outlined" />
+            </Box>
+            {url.splitDestinations && (
+              <Box mb={2}>
+                <SplitTestResults url={url} />
+              </Box>
+            )}
+            <Box mb={2}>
+              <ClickBreakdowns clicks={url.clicks} dimensions={dimensions} variant="outlined" />
+            </Box>
+            <ClickHistoryTable clicks={url.clicks} defaultRowsPerPage={historyRowsPerPage} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LinkClickAnalytics;
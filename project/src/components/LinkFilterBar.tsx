@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Box, TextField, MenuItem, InputAdornment, Button, Badge, Collapse } from '@mui/material';
+import { Search, Filter } from 'lucide-react';
+import { LinkFilters, LinkGroupBy, URLStatus } from '../types';
+import { URL_STATUS_DISPLAY } from '../utils/urlStatus';
+import { DEFAULT_LINK_FILTERS, countActiveFilters } from '../utils/linkFilters';
+
+interface LinkFilterBarProps {
+  filters: LinkFilters;
+  onChange: (changes: Partial<LinkFilters>) => void;
+  tags: string[];
+  folders: string[];
+}
+
+const LinkFilterBar: React.FC<LinkFilterBarProps> = ({ filters, onChange, tags, folders }) => {
+  const activeFilterCount = countActiveFilters(filters);
+  // Start expanded when a shared link already carries advanced filters
+  const [showMore, setShowMore] = useState(activeFilterCount > 0);
+
+  const handleClear = () => {
+    onChange({
+      ...DEFAULT_LINK_FILTERS,
+      groupBy: filters.groupBy,
+      sortBy: filters.sortBy,
+      sortDirection: filters.sortDirection
+    });
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+        <TextField
+          placeholder="Search URLs, codes, tags or notes..."
+          value={filters.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search size={20} />
+              </InputAdornment>
+            ),
+          }}
+          sx={{ minWidth: 300 }}
+        />
+        <TextField
+          select
+          label="Status"
+          value={filters.status}
+          onChange={(e) => onChange({ status: e.target.value as URLStatus | '' })}
+          sx={{ minWidth: 140 }}
+        >
+          <MenuItem value="">All statuses</MenuItem>
+          {(Object.keys(URL_STATUS_DISPLAY) as URLStatus[]).map(status => (
+            <MenuItem key={status} value={status}>{URL_STATUS_DISPLAY[status].label}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          label="Group by"
+          value={filters.groupBy}
+          onChange={(e) => onChange({ groupBy: e.target.value as LinkGroupBy })}
+          sx={{ minWidth: 140 }}
+        >
+          <MenuItem value="none">No grouping</MenuItem>
+          <MenuItem value="folder">Folder</MenuItem>
+          <MenuItem value="tag">Tag</MenuItem>
+          <MenuItem value="campaign">Campaign (UTM)</MenuItem>
+        </TextField>
+        <Button
+          variant={showMore ? 'contained' : 'outlined'}
+          startIcon={
+            <Badge badgeContent={activeFilterCount} color="secondary">
+              <Filter size={16} />
+            </Badge>
+          }
+          onClick={() => setShowMore(!showMore)}
+        >
+          More Filters
+        </Button>
+        {activeFilterCount > 0 && (
+          <Button onClick={handleClear}>Clear Filters</Button>
+        )}
+      </Box>
+
+      <Collapse in={showMore}>
+        <Box display="flex" gap={2} flexWrap="wrap">
+          <TextField
+            select
+            label="Tag"
+            value={filters.tag}
+            onChange={(e) => onChange({ tag: e.target.value })}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All tags</MenuItem>
+            {tags.map(tag => (
+              <MenuItem key={tag} value={tag}>{tag}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Folder"
+            value={filters.folder}
+            onChange={(e) => onChange({ folder: e.target.value })}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All folders</MenuItem>
+            {folders.map(folder => (
+              <MenuItem key={folder} value={folder}>{folder}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            type="date"
+            label="Created from"
+            value={filters.createdFrom}
+            onChange={(e) => onChange({ createdFrom: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="date"
+            label="Created to"
+            value={filters.createdTo}
+            onChange={(e) => onChange({ createdTo: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="date"
+            label="Expires from"
+            value={filters.expiresFrom}
+            onChange={(e) => onChange({ expiresFrom: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="date"
+            label="Expires to"
+            value={filters.expiresTo}
+            onChange={(e) => onChange({ expiresTo: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="number"
+            label="Min clicks"
+            value={filters.minClicks}
+            onChange={(e) => onChange({ minClicks: e.target.value })}
+            inputProps={{ min: 0 }}
+            sx={{ width: 120 }}
+          />
+          <TextField
+            type="number"
+            label="Max clicks"
+            value={filters.maxClicks}
+            onChange={(e) => onChange({ maxClicks: e.target.value })}
+            inputProps={{ min: 0 }}
+            sx={{ width: 120 }}
+          />
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default LinkFilterBar;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Box, Card, CardContent, Chip, Typography } from '@mui/material';
+import { Folder, Lock, Megaphone, Tag } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { formatDateTime } from '../utils/dateTime';
+import { getURLStatus, URL_STATUS_DISPLAY } from '../utils/urlStatus';
+import { UTM_FIELDS } from '../utils/utm';
+
+interface LinkInfoCardProps {
+  url: ShortenedURL;
+  variant?: 'outlined' | 'elevation';
+}
+
+const LinkInfoCard: React.FC<LinkInfoCardProps> = ({ url, variant = 'outlined' }) => {
+  const status = getURLStatus(url);
+
+  return (
+    <Card variant={variant}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={1} mb={1}>
+          <Typography variant="h6">
+            URL Information
+          </Typography>
+          <Chip label={URL_STATUS_DISPLAY[status].label} size="small" color={URL_STATUS_DISPLAY[status].color} />
+          {url.passwordHash && (
+            <Chip icon={<Lock size={14} />} label="Password protected" size="small" variant="outlined" />
+          )}
+        </Box>
+        <Box display="flex" flexDirection="column" gap={2}>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Original URL:
+            </Typography>
+            <Typography variant="body1" sx={{ wordBreak: 'break-all' }}>
+              {url.originalUrl}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="body2" color="text.secondary">
+              Short URL:
+            </Typography>
+            <Typography variant="body1" color="primary.main">
+              {url.shortUrl}
+            </Typography>
+          </Box>
+          <Box display="flex" gap={4}>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Created:
+              </Typography>
+              <Typography variant="body1">
+                {formatDateTime(url.createdAt)}
+              </Typography>
+            </Box>
+            {url.activatesAt && (
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Activates:
+                </Typography>
+                <Typography
+                  variant="body1"
+                  color={status === 'scheduled' ? 'info.main' : 'text.primary'}
+                >
+                  {formatDateTime(url.activatesAt)}
+                </Typography>
+              </Box>
+            )}
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Expires:
+              </Typography>
+              <Typography 
+                variant="body1"
+                color={status === 'expired' ? 'error.main' : 'text.primary'}
+              >
+                {formatDateTime(url.expiresAt)}
+              </Typography>
+            </Box>
+          </Box>
+          {(url.folder || (url.tags && url.tags.length > 0)) && (
+            <Box display="flex" gap={1} flexWrap="wrap">
+              {url.folder && (
+                <Chip icon={<Folder size={14} />} label={url.folder} size="small" variant="outlined" />
+              )}
+              {url.tags?.map(tag => (
+                <Chip key={tag} icon={<Tag size={14} />} label={tag} size="small" />
+              ))}
+            </Box>
+          )}
+          {url.utm && (
+            <Box display="flex" gap={1} flexWrap="wrap" alignItems="center">
+              <Megaphone size={14} />
+              {UTM_FIELDS.filter(field => url.utm?.[field.key]).map(field => (
+                <Chip key={field.key} label={`${field.label}: ${url.utm?.[field.key]}`} size="small" variant="outlined" />
+              ))}
+            </Box>
+          )}
+          {url.note && (
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Note:
+              </Typography>
+              <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap' }}>
+                {url.note}
+              </Typography>
+            </Box>
+          )}
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LinkInfoCard;
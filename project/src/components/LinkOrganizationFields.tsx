@@ -0,0 +1,82 @@
+import React from 'react';
+import { Autocomplete, Box, Chip, TextField } from '@mui/material';
+import { URLFormData } from '../types';
+import { urlService } from '../services/urlService';
+import { normalizeTags } from '../utils/tags';
+
+type LinkOrganization = Pick<URLFormData, 'tags' | 'folder' | 'note'>;
+
+interface LinkOrganizationFieldsProps {
+  value: LinkOrganization;
+  onChange: (changes: LinkOrganization) => void;
+  errors?: {
+    tags?: string;
+    folder?: string;
+    note?: string;
+  };
+}
+
+const LinkOrganizationFields: React.FC<LinkOrganizationFieldsProps> = ({ value, onChange, errors = {} }) => {
+  // Suggestions come from links that already exist, so teams converge on the same names
+  const existingTags = React.useMemo(() => urlService.getAllTags(), []);
+  const existingFolders = React.useMemo(() => urlService.getAllFolders(), []);
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      <Box display="flex" gap={2}>
+        <Autocomplete
+          multiple
+          freeSolo
+          options={existingTags}
+          value={value.tags || []}
+          onChange={(_, tags) => onChange({ tags: normalizeTags(tags) })}
+          renderTags={(tags, getTagProps) =>
+            tags.map((tag, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return <Chip key={key} label={tag} size="small" {...tagProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Tags (optional)"
+              placeholder="Type and press Enter"
+              error={!!errors.tags}
+              helperText={errors.tags}
+            />
+          )}
+          sx={{ flex: 2 }}
+        />
+
+        <Autocomplete
+          freeSolo
+          options={existingFolders}
+          value={value.folder || ''}
+          onInputChange={(_, folder) => onChange({ folder })}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Folder / Campaign (optional)"
+              error={!!errors.folder}
+              helperText={errors.folder}
+            />
+          )}
+          sx={{ flex: 1 }}
+        />
+      </Box>
+
+      <TextField
+        fullWidth
+        multiline
+        minRows={2}
+        label="Note (optional)"
+        value={value.note || ''}
+        onChange={(e) => onChange({ note: e.target.value })}
+        error={!!errors.note}
+        helperText={errors.note}
+      />
+    </Box>
+  );
+};
+
+export default LinkOrganizationFields;
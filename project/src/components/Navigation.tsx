@@ -1,7 +1,7 @@
 import React from 'react';
 import { AppBar, Toolbar, Typography, Button, Box } from '@mui/material';
 import { Link as RouterLink, useLocation } from 'react-router-dom';
-import { LinkIcon, BarChart3 } from 'lucide-react';
+import { LinkIcon, BarChart3, Settings } from 'lucide-react';
 import { logger } from '../services/loggingService';
 
 const Navigation: React.FC = () => {
@@ -35,11 +35,20 @@ const Navigation: React.FC = () => {
             color="inherit"
             component={RouterLink}
             to="/statistics"
-            variant={location.pathname === '/statistics' ? 'outlined' : 'text'}
+            variant={location.pathname.startsWith('/statistics') ? 'outlined' : 'text'}
             startIcon={<BarChart3 size={18} />}
           >
             Statistics
           </Button>
+          <Button
+            color="inherit"
+            component={RouterLink}
+            to="/settings"
+            variant={location.pathname === '/settings' ? 'outlined' : 'text'}
+            startIcon={<Settings size={18} />}
+          >
+            Settings
+          </Button>
         </Box>
       </Toolbar>
     </AppBar>
@@ -1,15 +1,92 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
-import { Container, Box, Typography, CircularProgress, Alert, Button } from '@mui/material';
-import { ExternalLink, Clock } from 'lucide-react';
+import { Container, Box, Typography, CircularProgress, Alert, Button, TextField } from '@mui/material';
+import { ExternalLink, Clock, Ban, Unlink, Lock, Hourglass } from 'lucide-react';
+import { ClickFailureReason, ClickResult } from '../types';
 import { urlService } from '../services/urlService';
 import { logger } from '../services/loggingService';
+import ActivationCountdown from './ActivationCountdown';
+import { getClickContext } from '../utils/clickAttribution';
+
+type PasswordReason = 'password_required' | 'invalid_password' | 'too_many_attempts';
+type TerminalReason = Exclude<ClickFailureReason, PasswordReason | 'not_yet_active'>;
+
+const PASSWORD_REASONS: ClickFailureReason[] = ['password_required', 'invalid_password', 'too_many_attempts'];
+
+const FAILURE_DISPLAY: Record<TerminalReason, { title: string; icon: React.ReactNode }> = {
+  not_found: { title: 'Link Not Found', icon: <Unlink size={60} color="#f44336" /> },
+  expired: { title: 'Link Expired', icon: <Clock size={60} color="#f44336" /> },
+  click_limit_reached: { title: 'Click Limit Reached', icon: <Ban size={60} color="#ff9800" /> }
+};
 
 const RedirectHandler: React.FC = () => {
   const { shortCode } = useParams<{ shortCode: string }>();
   const [redirectUrl, setRedirectUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [errorReason, setErrorReason] = useState<TerminalReason>('not_found');
   const [isLoading, setIsLoading] = useState(true);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [activatesAt, setActivatesAt] = useState<Date | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  // StrictMode runs effects twice in development; each visit must record exactly one click
+  const recordedVisitRef = useRef<string | null>(null);
+
+  const handleResult = useCallback((result: ClickResult) => {
+    if (result.success && result.redirectUrl) {
+      logger.info('Redirect successful', 'RedirectHandler', { 
+        shortCode, 
+        redirectUrl: result.redirectUrl 
+      });
+      
+      setNeedsPassword(false);
+      setRedirectUrl(result.redirectUrl);
+      
+      // Redirect after a brief delay to show the redirect page
+      setTimeout(() => {
+        window.location.href = result.redirectUrl!;
+      }, 2000);
+      return;
+    }
+
+    if (result.reason === 'not_yet_active' && result.activatesAt) {
+      logger.info('Short URL not yet active, showing countdown', 'RedirectHandler', {
+        shortCode,
+        activatesAt: result.activatesAt
+      });
+      setActivatesAt(result.activatesAt);
+      return;
+    }
+
+    if (result.reason && PASSWORD_REASONS.includes(result.reason)) {
+      setNeedsPassword(true);
+
+      if (result.reason === 'password_required') {
+        setPasswordError(null);
+        return;
+      }
+
+      logger.warn('Password attempt rejected', 'RedirectHandler', {
+        shortCode,
+        reason: result.reason,
+        attemptsRemaining: result.attemptsRemaining,
+        retryAfterSeconds: result.retryAfterSeconds
+      });
+      setPasswordError(result.reason === 'invalid_password' && result.attemptsRemaining !== undefined
+        ? `Incorrect password. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining before a temporary lockout.`
+        : result.error || 'Password rejected');
+      return;
+    }
+
+    logger.warn('Redirect failed', 'RedirectHandler', { 
+      shortCode, 
+      error: result.error 
+    });
+    setErrorReason((result.reason as TerminalReason) || 'not_found');
+    setError(result.error || 'Short URL not found');
+  }, [shortCode]);
 
   useEffect(() => {
     if (!shortCode) {
@@ -18,31 +95,18 @@ const RedirectHandler: React.FC = () => {
       return;
     }
 
-    logger.info('Processing redirect request', 'RedirectHandler', { shortCode });
+    const visitKey = `${shortCode}:${attempt}`;
+    if (recordedVisitRef.current === visitKey) {
+      return;
+    }
+    recordedVisitRef.current = visitKey;
+
+    logger.info('Processing redirect request', 'RedirectHandler', { shortCode, attempt });
 
     const handleRedirect = async () => {
       try {
-        const result = urlService.recordClick(shortCode);
-        
-        if (result.success && result.redirectUrl) {
-          logger.info('Redirect successful', 'RedirectHandler', { 
-            shortCode, 
-            redirectUrl: result.redirectUrl 
-          });
-          
-          setRedirectUrl(result.redirectUrl);
-          
-          // Redirect after a brief delay to show the redirect page
-          setTimeout(() => {
-            window.location.href = result.redirectUrl!;
-          }, 2000);
-        } else {
-          logger.warn('Redirect failed', 'RedirectHandler', { 
-            shortCode, 
-            error: result.error 
-          });
-          setError(result.error || 'Short URL not found');
-        }
+        const result = await urlService.recordClick(shortCode, { context: getClickContext() });
+        handleResult(result);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         logger.error('Redirect handler error', 'RedirectHandler', { 
@@ -56,8 +120,35 @@ const RedirectHandler: React.FC = () => {
     };
 
     handleRedirect();
+  }, [shortCode, handleResult, attempt]);
+
+  const handleActivated = useCallback(() => {
+    logger.info('Scheduled link activation reached, retrying redirect', 'RedirectHandler', { shortCode });
+    setActivatesAt(null);
+    setIsLoading(true);
+    setAttempt(current => current + 1);
   }, [shortCode]);
 
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shortCode || !password) {
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const result = await urlService.recordClick(shortCode, { password, context: getClickContext() });
+      handleResult(result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Password verification error', 'RedirectHandler', { shortCode, error: errorMessage });
+      setPasswordError(errorMessage);
+    } finally {
+      setPassword('');
+      setIsVerifying(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <Container maxWidth="sm" sx={{ py: 8 }}>
@@ -74,15 +165,80 @@ const RedirectHandler: React.FC = () => {
     );
   }
 
+  if (activatesAt) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <Box display="flex" flexDirection="column" alignItems="center" gap={3}>
+          <Hourglass size={60} color="#0288d1" />
+          <Typography variant="h5" textAlign="center" color="info.main">
+            Link Not Yet Active
+          </Typography>
+          <Typography variant="body1" color="text.secondary" textAlign="center">
+            This link goes live on {activatesAt.toLocaleString()}. You will be redirected automatically.
+          </Typography>
+          <ActivationCountdown activatesAt={activatesAt} onActivated={handleActivated} />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (needsPassword) {
+    return (
+      <Container maxWidth="sm" sx={{ py: 8 }}>
+        <Box
+          component="form"
+          onSubmit={handlePasswordSubmit}
+          display="flex"
+          flexDirection="column"
+          alignItems="center"
+          gap={3}
+        >
+          <Lock size={60} color="#1976d2" />
+          <Typography variant="h5" textAlign="center">
+            Password Required
+          </Typography>
+          <Typography variant="body1" color="text.secondary" textAlign="center">
+            This link is protected. Enter the password to continue.
+          </Typography>
+          {passwordError && (
+            <Alert severity="error" sx={{ width: '100%' }}>
+              {passwordError}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            autoComplete="current-password"
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={!password || isVerifying}
+          >
+            {isVerifying ? 'Verifying...' : 'Unlock Link'}
+          </Button>
+        </Box>
+      </Container>
+    );
+  }
+
   if (error) {
+    const display = FAILURE_DISPLAY[errorReason];
+    const isLimitReached = errorReason === 'click_limit_reached';
+
     return (
       <Container maxWidth="sm" sx={{ py: 8 }}>
         <Box display="flex" flexDirection="column" alignItems="center" gap={3}>
-          <Clock size={60} color="#f44336" />
-          <Typography variant="h5" textAlign="center" color="error">
-            {error.includes('expired') ? 'Link Expired' : 'Link Not Found'}
+          {display.icon}
+          <Typography variant="h5" textAlign="center" color={isLimitReached ? 'warning.main' : 'error'}>
+            {display.title}
           </Typography>
-          <Alert severity="error" sx={{ width: '100%' }}>
+          <Alert severity={isLimitReached ? 'warning' : 'error'} sx={{ width: '100%' }}>
             {error}
           </Alert>
           <Button
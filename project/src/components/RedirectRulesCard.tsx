@@ -0,0 +1,326 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { ArrowDown, ArrowUp, Plus, Route, Trash2 } from 'lucide-react';
+import { DeviceType, RedirectRule, RedirectRuleConditions, ShortenedURL } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { validateRedirectRules } from '../utils/validation';
+import { MAX_REDIRECT_RULES, countRuleMatches, describeRuleConditions } from '../utils/redirectRules';
+import { BROWSER_NAMES, DEVICE_LABELS, OPERATING_SYSTEM_NAMES } from '../utils/userAgentParser';
+import { WEEKDAY_LABELS } from '../utils/timeSeries';
+
+interface RedirectRulesCardProps {
+  url: ShortenedURL;
+  onSaved: (url: ShortenedURL) => void;
+  variant?: 'outlined' | 'elevation';
+}
+
+const DEVICE_OPTIONS = Object.keys(DEVICE_LABELS) as DeviceType[];
+
+// Starting points for the most common setup: app store links for phones, the website for everyone else
+const RULE_TEMPLATES: { label: string; rule: Omit<RedirectRule, 'id'> }[] = [
+  { label: 'iOS', rule: { label: 'iOS', url: 'https://apps.apple.com/', conditions: { os: ['iOS'] } } },
+  { label: 'Android', rule: { label: 'Android', url: 'https://play.google.com/store/apps/', conditions: { os: ['Android'] } } },
+  { label: 'Office hours', rule: { label: 'Office hours', url: '', conditions: { weekdays: [0, 1, 2, 3, 4], fromHour: 9, toHour: 17 } } }
+];
+
+const createRule = (rule: Omit<RedirectRule, 'id'>): RedirectRule => ({
+  id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+  ...rule,
+  conditions: { ...rule.conditions }
+});
+
+// Editable copy, so unsaved changes never touch the stored link
+const copyRules = (url: ShortenedURL): RedirectRule[] =>
+  url.redirectRules?.map(rule => ({ ...rule, conditions: { ...rule.conditions } })) || [];
+
+const parseHour = (value: string): number | undefined => (value === '' ? undefined : parseInt(value));
+
+interface RuleEditorProps {
+  rule: RedirectRule;
+  position: number;
+  count: number;
+  matchedClicks: number;
+  onChange: (changes: Partial<RedirectRule>) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, position, count, matchedClicks, onChange, onMove, onRemove }) => {
+  const updateConditions = (changes: Partial<RedirectRuleConditions>) => {
+    onChange({ conditions: { ...rule.conditions, ...changes } });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Box display="flex" flexDirection="column" gap={2}>
+          <Box display="flex" gap={1} alignItems="center">
+            <Chip label={position + 1} size="small" />
+            <TextField
+              size="small"
+              label="Label"
+              value={rule.label}
+              onChange={(e) => onChange({ label: e.target.value })}
+              sx={{ width: 160 }}
+            />
+            <TextField
+              size="small"
+              label="Send to"
+              value={rule.url}
+              onChange={(e) => onChange({ url: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+              {matchedClicks} click{matchedClicks === 1 ? '' : 's'}
+            </Typography>
+            <Tooltip title="Move up">
+              <span>
+                <IconButton size="small" disabled={position === 0} onClick={() => onMove(-1)}>
+                  <ArrowUp size={16} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Move down">
+              <span>
+                <IconButton size="small" disabled={position === count - 1} onClick={() => onMove(1)}>
+                  <ArrowDown size={16} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Remove rule">
+              <IconButton size="small" color="error" onClick={onRemove}>
+                <Trash2 size={16} />
+              </IconButton>
+            </Tooltip>
+          </Box>
+
+          <Box display="flex" gap={2} flexWrap="wrap">
+            <Autocomplete
+              multiple
+              size="small"
+              options={OPERATING_SYSTEM_NAMES}
+              value={rule.conditions.os || []}
+              onChange={(_, os) => updateConditions({ os })}
+              renderInput={(params) => <TextField {...params} label="Operating system" />}
+              sx={{ flex: '1 1 200px' }}
+            />
+            <Autocomplete
+              multiple
+              size="small"
+              options={DEVICE_OPTIONS}
+              getOptionLabel={(device) => DEVICE_LABELS[device]}
+              value={rule.conditions.devices || []}
+              onChange={(_, devices) => updateConditions({ devices })}
+              renderInput={(params) => <TextField {...params} label="Device" />}
+              sx={{ flex: '1 1 200px' }}
+            />
+            <Autocomplete
+              multiple
+              size="small"
+              options={BROWSER_NAMES}
+              value={rule.conditions.browsers || []}
+              onChange={(_, browsers) => updateConditions({ browsers })}
+              renderInput={(params) => <TextField {...params} label="Browser" />}
+              sx={{ flex: '1 1 200px' }}
+            />
+            <Autocomplete
+              multiple
+              freeSolo
+              size="small"
+              options={[]}
+              value={rule.conditions.languages || []}
+              onChange={(_, languages) => updateConditions({
+                languages: languages.map(language => language.trim()).filter(Boolean)
+              })}
+              renderInput={(params) => (
+                <TextField {...params} label="Language" placeholder="e.g. de or pt-BR, then Enter" />
+              )}
+              sx={{ flex: '1 1 200px' }}
+            />
+          </Box>
+
+          <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+            <ToggleButtonGroup
+              size="small"
+              value={rule.conditions.weekdays || []}
+              onChange={(_, weekdays: number[]) => updateConditions({ weekdays })}
+            >
+              {WEEKDAY_LABELS.map((label, index) => (
+                <ToggleButton key={label} value={index}>
+                  {label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <TextField
+              size="small"
+              type="number"
+              label="From hour"
+              value={rule.conditions.fromHour ?? ''}
+              onChange={(e) => updateConditions({ fromHour: parseHour(e.target.value) })}
+              inputProps={{ min: 0, max: 24 }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="To hour"
+              value={rule.conditions.toHour ?? ''}
+              onChange={(e) => updateConditions({ toHour: parseHour(e.target.value) })}
+              inputProps={{ min: 0, max: 24 }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              label="Referrer contains"
+              value={rule.conditions.referrerContains || ''}
+              onChange={(e) => updateConditions({ referrerContains: e.target.value || undefined })}
+              sx={{ flex: '1 1 200px' }}
+            />
+          </Box>
+
+          <Typography variant="caption" color="text.secondary">
+            Matches: {describeRuleConditions(rule.conditions)}
+          </Typography>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+const RedirectRulesCard: React.FC<RedirectRulesCardProps> = ({ url, onSaved, variant = 'outlined' }) => {
+  const [rules, setRules] = useState<RedirectRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const matchCounts = useMemo(() => countRuleMatches(url), [url]);
+
+  const resetRules = useCallback(() => {
+    setRules(copyRules(url));
+    setIsDirty(false);
+    setError(null);
+  }, [url]);
+
+  useEffect(() => {
+    resetRules();
+  }, [resetRules]);
+
+  const updateRules = (nextRules: RedirectRule[]) => {
+    setRules(nextRules);
+    setIsDirty(true);
+    setError(null);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const nextRules = [...rules];
+    const [moved] = nextRules.splice(index, 1);
+    nextRules.splice(index + offset, 0, moved);
+    updateRules(nextRules);
+  };
+
+  const handleSave = () => {
+    const validation = validateRedirectRules(rules);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid redirect rules');
+      logger.warn('Redirect rules validation failed', 'RedirectRulesCard', { error: validation.error });
+      return;
+    }
+
+    try {
+      onSaved(urlService.updateURL(url.id, { redirectRules: rules }));
+      logger.info('Redirect rules saved', 'RedirectRulesCard', { shortCode: url.shortCode, rules: rules.length });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save redirect rules';
+      setError(errorMessage);
+      logger.error('Failed to save redirect rules', 'RedirectRulesCard', { id: url.id, error: errorMessage });
+    }
+  };
+
+  return (
+    <Card variant={variant}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={1} mb={1}>
+          <Route size={20} />
+          <Typography variant="h6">Redirect Rules</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Rules are checked from top to bottom and the first one whose conditions all match decides the
+          destination. Visitors that match no rule go to {url.splitDestinations ? 'the A/B split' : 'the main destination'}.
+          Times use the visitor's local clock.
+        </Typography>
+
+        <Box display="flex" flexDirection="column" gap={2}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {rules.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No rules yet. Every visitor goes to the same destination.
+            </Typography>
+          )}
+
+          {rules.map((rule, index) => (
+            <RuleEditor
+              key={rule.id}
+              rule={rule}
+              position={index}
+              count={rules.length}
+              matchedClicks={matchCounts.get(rule.id) || 0}
+              onChange={(changes) => updateRules(rules.map(other => (other.id === rule.id ? { ...other, ...changes } : other)))}
+              onMove={(offset) => moveRule(index, offset)}
+              onRemove={() => updateRules(rules.filter(other => other.id !== rule.id))}
+            />
+          ))}
+
+          <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+            <Button
+              size="small"
+              startIcon={<Plus size={16} />}
+              disabled={rules.length >= MAX_REDIRECT_RULES}
+              onClick={() => updateRules([...rules, createRule({ label: `Rule ${rules.length + 1}`, url: '', conditions: {} })])}
+            >
+              Add Rule
+            </Button>
+            {RULE_TEMPLATES.map(template => (
+              <Chip
+                key={template.label}
+                label={`+ ${template.label}`}
+                size="small"
+                variant="outlined"
+                disabled={rules.length >= MAX_REDIRECT_RULES}
+                onClick={() => updateRules([...rules, createRule(template.rule)])}
+              />
+            ))}
+            <Box flexGrow={1} />
+            {isDirty && (
+              <>
+                <Button onClick={resetRules}>Discard</Button>
+                <Button variant="contained" onClick={handleSave}>
+                  Save Rules
+                </Button>
+              </>
+            )}
+          </Box>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RedirectRulesCard;
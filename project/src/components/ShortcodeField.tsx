@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Box, TextField, Chip, Typography, CircularProgress, InputAdornment } from '@mui/material';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { validateShortcode } from '../utils/validation';
+import { suggestShortcodes } from '../utils/shortcodeSuggestions';
+import { normalizeShortcode } from '../utils/shortcodeMatching';
+
+const CHECK_DELAY_MS = 400;
+
+type AvailabilityStatus = 'idle' | 'checking' | 'available' | 'taken' | 'invalid';
+
+interface ShortcodeFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Error from form submission; shown instead of the live status
+  error?: string;
+  // Codes requested by other entries of the same form on the same domain, which are not saved yet
+  pendingShortcodes?: string[];
+  domain?: string;
+}
+
+const ShortcodeField: React.FC<ShortcodeFieldProps> = ({ value, onChange, error, pendingShortcodes = [], domain }) => {
+  const [status, setStatus] = useState<AvailabilityStatus>('idle');
+  const [message, setMessage] = useState<string | undefined>();
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const pendingKey = pendingShortcodes.join('\n');
+
+  useEffect(() => {
+    const code = value.trim();
+    if (!code) {
+      setStatus('idle');
+      setMessage(undefined);
+      setSuggestions([]);
+      return;
+    }
+
+    setStatus('checking');
+    const timer = setTimeout(() => {
+      const pending = pendingKey ? pendingKey.split('\n').map(code => normalizeShortcode(code)) : [];
+      const isAvailable = (candidate: string) =>
+        urlService.isShortcodeAvailable(candidate, domain) && !pending.includes(normalizeShortcode(candidate));
+
+      const validation = validateShortcode(code);
+      if (!validation.isValid) {
+        setStatus('invalid');
+        setMessage(validation.error);
+        setSuggestions(suggestShortcodes(code, isAvailable));
+        return;
+      }
+
+      if (isAvailable(code)) {
+        setStatus('available');
+        setMessage('Available');
+        setSuggestions([]);
+        return;
+      }
+
+      const alternatives = suggestShortcodes(code, isAvailable);
+      setStatus('taken');
+      setMessage(pending.includes(normalizeShortcode(code)) ? 'Already used by another URL in this form' : 'Already taken');
+      setSuggestions(alternatives);
+      logger.info('Custom shortcode unavailable', 'ShortcodeField', { shortcode: code, suggestions: alternatives });
+    }, CHECK_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [value, pendingKey, domain]);
+
+  const showError = !!error || status === 'taken' || status === 'invalid';
+
+  return (
+    <Box sx={{ flex: 1 }}>
+      <TextField
+        fullWidth
+        label="Custom Shortcode (optional)"
+        placeholder="mycode123"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        error={showError}
+        helperText={error || message || 'Leave empty for auto-generation'}
+        InputProps={{
+          endAdornment: status !== 'idle' && (
+            <InputAdornment position="end">
+              {status === 'checking' && <CircularProgress size={16} />}
+              {status === 'available' && <CheckCircle size={18} color="#2e7d32" />}
+              {(status === 'taken' || status === 'invalid') && <XCircle size={18} color="#d32f2f" />}
+            </InputAdornment>
+          )
+        }}
+      />
+
+      {suggestions.length > 0 && (
+        <Box display="flex" alignItems="center" flexWrap="wrap" gap={0.5} mt={1}>
+          <Typography variant="caption" color="text.secondary">
+            Try:
+          </Typography>
+          {suggestions.map(suggestion => (
+            <Chip
+              key={suggestion}
+              label={suggestion}
+              size="small"
+              variant="outlined"
+              color="primary"
+              onClick={() => onChange(suggestion)}
+              sx={{ fontFamily: 'monospace' }}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ShortcodeField;
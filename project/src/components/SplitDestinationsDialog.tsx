@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  TextField,
+  Alert,
+  IconButton,
+  Tooltip
+} from '@mui/material';
+import { Plus, Trash2 } from 'lucide-react';
+import { ShortenedURL, SplitDestination } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { validateSplitDestinations } from '../utils/validation';
+import { MAX_SPLIT_DESTINATIONS, MAX_SPLIT_WEIGHT } from '../utils/splitDestinations';
+
+interface SplitDestinationsDialogProps {
+  url: ShortenedURL | null;
+  onClose: () => void;
+  onSaved: (url: ShortenedURL) => void;
+}
+
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+const createDestination = (label: string, url: string, weight: number): SplitDestination => ({
+  id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+  label,
+  url,
+  weight
+});
+
+// A new split starts as a 50/50 test of the current destination against a second one
+const getInitialDestinations = (url: ShortenedURL): SplitDestination[] =>
+  url.splitDestinations?.length
+    ? url.splitDestinations.map(destination => ({ ...destination }))
+    : [createDestination('A', url.originalUrl, 50), createDestination('B', '', 50)];
+
+const SplitDestinationsDialog: React.FC<SplitDestinationsDialogProps> = ({ url, onClose, onSaved }) => {
+  const [destinations, setDestinations] = useState<SplitDestination[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (url) {
+      setDestinations(getInitialDestinations(url));
+      setError(null);
+      logger.info('Split destinations dialog opened', 'SplitDestinationsDialog', { shortCode: url.shortCode });
+    }
+  }, [url]);
+
+  const totalWeight = destinations.reduce((sum, destination) => sum + (destination.weight || 0), 0);
+
+  const updateDestination = (id: string, changes: Partial<SplitDestination>) => {
+    setDestinations(destinations.map(destination => (destination.id === id ? { ...destination, ...changes } : destination)));
+    setError(null);
+  };
+
+  const addDestination = () => {
+    const usedLabels = new Set(destinations.map(destination => destination.label));
+    const label = VARIANT_LABELS.find(candidate => !usedLabels.has(candidate)) || `Variant ${destinations.length + 1}`;
+    setDestinations([...destinations, createDestination(label, '', 0)]);
+  };
+
+  const save = (nextDestinations: SplitDestination[]) => {
+    if (!url) {
+      return;
+    }
+
+    const validation = validateSplitDestinations(nextDestinations);
+    if (!validation.isValid) {
+      setError(validation.error || 'Invalid split');
+      logger.warn('Split destinations validation failed', 'SplitDestinationsDialog', { error: validation.error });
+      return;
+    }
+
+    try {
+      onSaved(urlService.updateURL(url.id, { splitDestinations: nextDestinations }));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save split destinations';
+      setError(errorMessage);
+      logger.error('Failed to save split destinations', 'SplitDestinationsDialog', { id: url.id, error: errorMessage });
+    }
+  };
+
+  return (
+    <Dialog open={!!url} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>A/B Split Destinations</DialogTitle>
+      <DialogContent>
+        <Box display="flex" flexDirection="column" gap={2} pt={1}>
+          <Typography variant="body2" color="text.secondary">
+            Each visitor is sent to one destination, picked by weight. A visitor keeps the same
+            destination for their whole browser session. Set a weight to 0 to pause a destination.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {destinations.map(destination => (
+            <Box key={destination.id} display="flex" gap={1} alignItems="center">
+              <TextField
+                size="small"
+                label="Label"
+                value={destination.label}
+                onChange={(e) => updateDestination(destination.id, { label: e.target.value })}
+                sx={{ width: 110 }}
+              />
+              <TextField
+                size="small"
+                label="Destination URL"
+                value={destination.url}
+                onChange={(e) => updateDestination(destination.id, { url: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Weight"
+                value={Number.isNaN(destination.weight) ? '' : destination.weight}
+                onChange={(e) => updateDestination(destination.id, { weight: parseInt(e.target.value) })}
+                inputProps={{ min: 0, max: MAX_SPLIT_WEIGHT }}
+                sx={{ width: 90 }}
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ width: 44, textAlign: 'right' }}>
+                {totalWeight > 0 ? Math.round(((destination.weight || 0) / totalWeight) * 100) : 0}%
+              </Typography>
+              <Tooltip title="Remove destination">
+                <span>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    disabled={destinations.length <= 2}
+                    onClick={() => setDestinations(destinations.filter(other => other.id !== destination.id))}
+                  >
+                    <Trash2 size={16} />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          ))}
+
+          {destinations.length < MAX_SPLIT_DESTINATIONS && (
+            <Box>
+              <Button size="small" startIcon={<Plus size={16} />} onClick={addDestination}>
+                Add Destination
+              </Button>
+            </Box>
+          )}
+
+          {url && url.clicks.length > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Visitors already in a session stay on their destination while it keeps a weight above 0.
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        {url?.splitDestinations && (
+          <Button color="error" onClick={() => save([])} sx={{ mr: 'auto' }}>
+            Remove Split
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => save(destinations)}>
+          Save Split
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SplitDestinationsDialog;
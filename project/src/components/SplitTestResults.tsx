@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Split } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { countRemovedVariantClicks, getSplitVariantStatistics } from '../utils/splitDestinations';
+
+interface SplitTestResultsProps {
+  url: ShortenedURL;
+  variant?: 'outlined' | 'elevation';
+}
+
+const SplitTestResults: React.FC<SplitTestResultsProps> = ({ url, variant = 'outlined' }) => {
+  const stats = useMemo(() => getSplitVariantStatistics(url), [url]);
+  const removedClicks = useMemo(() => countRemovedVariantClicks(url), [url]);
+
+  return (
+    <Card variant={variant}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={1} mb={2}>
+          <Split size={18} />
+          <Typography variant="subtitle1">A/B Split</Typography>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Variant</TableCell>
+                <TableCell>Destination</TableCell>
+                <TableCell align="right">Target</TableCell>
+                <TableCell align="right">Clicks</TableCell>
+                <TableCell align="right">Unique</TableCell>
+                <TableCell align="right">Actual</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.map(variantStats => (
+                <TableRow key={variantStats.id}>
+                  <TableCell>{variantStats.label}</TableCell>
+                  <TableCell
+                    sx={{ maxWidth: 280, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                    title={variantStats.url}
+                  >
+                    {variantStats.url}
+                  </TableCell>
+                  <TableCell align="right">{variantStats.weight === 0 ? 'Paused' : `${variantStats.targetShare}%`}</TableCell>
+                  <TableCell align="right">{variantStats.clicks}</TableCell>
+                  <TableCell align="right">{variantStats.uniqueVisitors}</TableCell>
+                  <TableCell align="right">{variantStats.share}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {removedClicks > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {removedClicks} click{removedClicks === 1 ? '' : 's'} went to destinations that have since been removed.
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SplitTestResults;
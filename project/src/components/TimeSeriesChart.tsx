@@ -0,0 +1,106 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { TimeBucket, TimeSeriesPoint } from '../types';
+import { formatBucketLabel } from '../utils/timeSeries';
+
+interface TimeSeriesChartProps {
+  points: TimeSeriesPoint[];
+  bucket: TimeBucket;
+  height?: number;
+}
+
+const WIDTH = 720;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 36 };
+const MAX_X_LABELS = 6;
+const BAR_COLOR = '#1976d2';
+
+// Rounds the y-axis maximum up to a value that splits into readable ticks
+const niceMax = (value: number): number => {
+  if (value <= 4) {
+    return 4;
+  }
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 2.5, 5, 10].find(factor => factor * magnitude >= value / 4) ?? 10;
+  return Math.ceil(value / (step * magnitude)) * step * magnitude;
+};
+
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ points, bucket, height = 220 }) => {
+  if (points.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No data for this range
+      </Typography>
+    );
+  }
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const maxValue = niceMax(Math.max(...points.map(point => point.count)));
+  const slotWidth = plotWidth / points.length;
+  const barWidth = Math.max(slotWidth * 0.8, 1);
+  const yTicks = [0, maxValue / 4, maxValue / 2, (maxValue * 3) / 4, maxValue];
+  const labelEvery = Math.ceil(points.length / MAX_X_LABELS);
+
+  const y = (value: number) => MARGIN.top + plotHeight - (value / maxValue) * plotHeight;
+
+  return (
+    <Box sx={{ width: '100%', overflowX: 'auto' }}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width="100%"
+        role="img"
+        aria-label={`Clicks per ${bucket}`}
+        style={{ display: 'block', fontFamily: 'inherit' }}
+      >
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#e0e0e0" />
+            <text x={MARGIN.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#757575">
+              {Number.isInteger(tick) ? tick : tick.toFixed(1)}
+            </text>
+          </g>
+        ))}
+
+        {points.map((point, index) => {
+          const x = MARGIN.left + index * slotWidth + (slotWidth - barWidth) / 2;
+          const label = formatBucketLabel(point.start, bucket);
+          return (
+            <g key={point.start.getTime()}>
+              <rect
+                x={x}
+                y={y(point.count)}
+                width={barWidth}
+                height={Math.max(MARGIN.top + plotHeight - y(point.count), 0)}
+                fill={BAR_COLOR}
+                rx={barWidth > 6 ? 2 : 0}
+              >
+                <title>{`${label}: ${point.count} click${point.count === 1 ? '' : 's'}`}</title>
+              </rect>
+              {index % labelEvery === 0 && (
+                <text
+                  x={MARGIN.left + index * slotWidth + slotWidth / 2}
+                  y={height - 8}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill="#757575"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={MARGIN.top + plotHeight}
+          y2={MARGIN.top + plotHeight}
+          stroke="#9e9e9e"
+        />
+      </svg>
+    </Box>
+  );
+};
+
+export default TimeSeriesChart;
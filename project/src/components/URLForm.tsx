@@ -9,12 +9,34 @@ import {
   Alert,
   Chip,
   IconButton,
-  Tooltip
+  Tooltip,
+  FormControlLabel,
+  Checkbox,
+  MenuItem
 } from '@mui/material';
 import { Plus, Trash2, Globe } from 'lucide-react';
 import { URLFormData } from '../types';
-import { validateURL, validateShortcode, validateValidityMinutes } from '../utils/validation';
+import {
+  validateURL,
+  validateShortcode,
+  validateValidityMinutes,
+  validateMaxClicks,
+  validatePassword,
+  validateActivationDate,
+  validateTags,
+  validateFolder,
+  validateNote,
+  validateUTMParams
+} from '../utils/validation';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/dateTime';
 import { logger } from '../services/loggingService';
+import { urlService } from '../services/urlService';
+import { normalizeShortcode } from '../utils/shortcodeMatching';
+import { getBrandedDomains, getDomainLabel, isSameDomain } from '../utils/domains';
+import { applyUTMParams, normalizeUTMParams } from '../utils/utm';
+import LinkOrganizationFields from './LinkOrganizationFields';
+import ShortcodeField from './ShortcodeField';
+import UTMBuilder from './UTMBuilder';
 
 interface URLFormProps {
   onSubmit: (urls: URLFormData[]) => void;
@@ -27,10 +49,23 @@ interface URLFormEntry extends URLFormData {
     originalUrl?: string;
     validityMinutes?: string;
     customShortcode?: string;
+    maxClicks?: string;
+    password?: string;
+    activatesAt?: string;
+    tags?: string;
+    folder?: string;
+    note?: string;
+    utm?: string;
   };
 }
 
+// Same-domain entries are the only ones whose codes can clash
+const getShortcodeKey = (entry: URLFormEntry): string =>
+  `${entry.domain || ''} ${normalizeShortcode((entry.customShortcode || '').trim())}`;
+
 const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
+  const brandedDomains = getBrandedDomains();
+
   const [urlEntries, setUrlEntries] = useState<URLFormEntry[]>([
     {
       id: '1',
@@ -73,14 +108,18 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
     logger.info('Removed URL entry', 'URLForm', { removedId: id, remainingEntries: urlEntries.length - 1 });
   };
 
-  const updateEntry = (id: string, field: keyof URLFormData, value: string | number) => {
-    setUrlEntries(urlEntries.map(entry => {
+  const updateEntryFields = (id: string, changes: Partial<URLFormData>) => {
+    setUrlEntries(entries => entries.map(entry => {
       if (entry.id === id) {
-        const updatedEntry = { ...entry, [field]: value };
+        const updatedEntry = { ...entry, ...changes };
         
-        // Clear specific field error when user starts typing
-        if (entry.errors[field as keyof URLFormEntry['errors']]) {
-          updatedEntry.errors = { ...entry.errors, [field]: undefined };
+        // Clear specific field errors when user starts typing
+        const changedFields = Object.keys(changes) as (keyof URLFormEntry['errors'])[];
+        if (changedFields.some(field => entry.errors[field])) {
+          updatedEntry.errors = { ...entry.errors };
+          changedFields.forEach(field => {
+            updatedEntry.errors[field] = undefined;
+          });
         }
         
         return updatedEntry;
@@ -89,6 +128,10 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
     }));
   };
 
+  const updateEntry = (id: string, field: keyof URLFormData, value: string | number | Date | undefined) => {
+    updateEntryFields(id, { [field]: value });
+  };
+
   const validateEntries = (): boolean => {
     logger.info('Starting form validation', 'URLForm', { entriesCount: urlEntries.length });
     
@@ -96,8 +139,8 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
     const updatedEntries = urlEntries.map(entry => {
       const errors: URLFormEntry['errors'] = {};
 
-      // Validate URL
-      const urlValidation = validateURL(entry.originalUrl);
+      // Validate URL as it will be stored, including any campaign parameters
+      const urlValidation = validateURL(applyUTMParams(entry.originalUrl, entry.utm));
       if (!urlValidation.isValid) {
         errors.originalUrl = urlValidation.error;
         isValid = false;
@@ -110,24 +153,72 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
         isValid = false;
       }
 
+      // Validate click limit
+      const maxClicksValidation = validateMaxClicks(entry.maxClicks);
+      if (!maxClicksValidation.isValid) {
+        errors.maxClicks = maxClicksValidation.error;
+        isValid = false;
+      }
+
+      // Validate password
+      const passwordValidation = validatePassword(entry.password);
+      if (!passwordValidation.isValid) {
+        errors.password = passwordValidation.error;
+        isValid = false;
+      }
+
+      // Validate activation time
+      const activationValidation = validateActivationDate(entry.activatesAt);
+      if (!activationValidation.isValid) {
+        errors.activatesAt = activationValidation.error;
+        isValid = false;
+      }
+
+      // Validate organization fields
+      const tagsValidation = validateTags(entry.tags);
+      if (!tagsValidation.isValid) {
+        errors.tags = tagsValidation.error;
+        isValid = false;
+      }
+
+      const folderValidation = validateFolder(entry.folder);
+      if (!folderValidation.isValid) {
+        errors.folder = folderValidation.error;
+        isValid = false;
+      }
+
+      const noteValidation = validateNote(entry.note);
+      if (!noteValidation.isValid) {
+        errors.note = noteValidation.error;
+        isValid = false;
+      }
+
+      const utmValidation = validateUTMParams(entry.utm);
+      if (!utmValidation.isValid) {
+        errors.utm = utmValidation.error;
+        isValid = false;
+      }
+
       // Validate shortcode
       if (entry.customShortcode) {
         const shortcodeValidation = validateShortcode(entry.customShortcode);
         if (!shortcodeValidation.isValid) {
           errors.customShortcode = shortcodeValidation.error;
           isValid = false;
+        } else if (!urlService.isShortcodeAvailable(entry.customShortcode.trim(), entry.domain || undefined)) {
+          // Caught here so one taken code does not abort the whole batch after submission
+          errors.customShortcode = 'This shortcode is already taken. Pick one of the suggestions below.';
+          isValid = false;
         }
       }
 
       return { ...entry, errors };
     });
 
-    setUrlEntries(updatedEntries);
-
     // Check for duplicate custom shortcodes
     const customShortcodes = updatedEntries
       .filter(entry => entry.customShortcode)
-      .map(entry => entry.customShortcode);
+      .map(getShortcodeKey);
     
     const duplicateShortcodes = customShortcodes.filter((code, index) => 
       customShortcodes.indexOf(code) !== index
@@ -135,9 +226,16 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
 
     if (duplicateShortcodes.length > 0) {
       isValid = false;
+      updatedEntries.forEach(entry => {
+        if (entry.customShortcode && duplicateShortcodes.includes(getShortcodeKey(entry)) && !entry.errors.customShortcode) {
+          entry.errors.customShortcode = 'Used by another URL in this form';
+        }
+      });
       logger.warn('Duplicate custom shortcodes detected', 'URLForm', { duplicates: duplicateShortcodes });
     }
 
+    setUrlEntries(updatedEntries);
+
     logger.info('Form validation completed', 'URLForm', { isValid, errorsFound: !isValid });
     return isValid;
   };
@@ -159,9 +257,17 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
     }
 
     const formData: URLFormData[] = validEntries.map(entry => ({
-      originalUrl: entry.originalUrl.trim(),
+      originalUrl: applyUTMParams(entry.originalUrl.trim(), entry.utm),
       validityMinutes: entry.validityMinutes,
-      customShortcode: entry.customShortcode?.trim() || undefined
+      customShortcode: entry.customShortcode?.trim() || undefined,
+      domain: entry.domain || undefined,
+      maxClicks: entry.maxClicks,
+      password: entry.password || undefined,
+      activatesAt: entry.activatesAt,
+      tags: entry.tags,
+      folder: entry.folder?.trim() || undefined,
+      note: entry.note?.trim() || undefined,
+      utm: normalizeUTMParams(entry.utm)
     }));
 
     logger.info('Submitting valid form data', 'URLForm', { entriesCount: formData.length });
@@ -225,16 +331,101 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
                     sx={{ flex: 1 }}
                   />
 
+                  {brandedDomains.length > 0 && (
+                    <TextField
+                      select
+                      label="Domain"
+                      value={entry.domain || ''}
+                      onChange={(e) => updateEntry(entry.id, 'domain', e.target.value || undefined)}
+                      sx={{ flex: 1 }}
+                    >
+                      <MenuItem value="">{getDomainLabel()}</MenuItem>
+                      {brandedDomains.map(domain => (
+                        <MenuItem key={domain} value={domain}>
+                          {getDomainLabel(domain)}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+
+                  <ShortcodeField
+                    value={entry.customShortcode || ''}
+                    onChange={(value) => updateEntry(entry.id, 'customShortcode', value)}
+                    error={entry.errors.customShortcode}
+                    domain={entry.domain || undefined}
+                    pendingShortcodes={urlEntries
+                      .filter(other =>
+                        other.id !== entry.id && other.customShortcode && isSameDomain(other.domain, entry.domain)
+                      )
+                      .map(other => (other.customShortcode as string).trim())}
+                  />
+                </Box>
+
+                <Box display="flex" gap={2} alignItems="center">
                   <TextField
-                    label="Custom Shortcode (optional)"
-                    placeholder="mycode123"
-                    value={entry.customShortcode}
-                    onChange={(e) => updateEntry(entry.id, 'customShortcode', e.target.value)}
-                    error={!!entry.errors.customShortcode}
-                    helperText={entry.errors.customShortcode || 'Leave empty for auto-generation'}
+                    label="Click limit (optional)"
+                    type="number"
+                    value={entry.maxClicks ?? ''}
+                    onChange={(e) => updateEntry(
+                      entry.id,
+                      'maxClicks',
+                      e.target.value === '' ? undefined : parseInt(e.target.value)
+                    )}
+                    error={!!entry.errors.maxClicks}
+                    helperText={entry.errors.maxClicks || 'Leave empty for unlimited clicks'}
+                    inputProps={{ min: 1 }}
+                    disabled={entry.maxClicks === 1}
+                    sx={{ flex: 1 }}
+                  />
+
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={entry.maxClicks === 1}
+                        onChange={(e) => updateEntry(entry.id, 'maxClicks', e.target.checked ? 1 : undefined)}
+                      />
+                    }
+                    label="One-time link"
                     sx={{ flex: 1 }}
                   />
                 </Box>
+
+                <Box display="flex" gap={2}>
+                  <TextField
+                    label="Password (optional)"
+                    type="password"
+                    value={entry.password || ''}
+                    onChange={(e) => updateEntry(entry.id, 'password', e.target.value)}
+                    error={!!entry.errors.password}
+                    helperText={entry.errors.password || 'Visitors must enter this password before being redirected'}
+                    autoComplete="new-password"
+                    sx={{ flex: 1 }}
+                  />
+
+                  <TextField
+                    label="Activate at (optional)"
+                    type="datetime-local"
+                    value={entry.activatesAt ? toDateTimeLocalValue(entry.activatesAt) : ''}
+                    onChange={(e) => updateEntry(entry.id, 'activatesAt', fromDateTimeLocalValue(e.target.value) ?? undefined)}
+                    error={!!entry.errors.activatesAt}
+                    helperText={entry.errors.activatesAt || 'Validity starts counting from activation'}
+                    InputLabelProps={{ shrink: true }}
+                    sx={{ flex: 1 }}
+                  />
+                </Box>
+
+                <LinkOrganizationFields
+                  value={entry}
+                  onChange={(changes) => updateEntryFields(entry.id, changes)}
+                  errors={entry.errors}
+                />
+
+                <UTMBuilder
+                  value={entry.utm}
+                  onChange={(utm) => updateEntryFields(entry.id, { utm })}
+                  originalUrl={entry.originalUrl}
+                  error={entry.errors.utm}
+                />
               </Box>
             </Card>
           ))}
@@ -253,7 +444,7 @@ const URLForm: React.FC<URLFormProps> = ({ onSubmit, isLoading }) => {
 
           {urlEntries.length >= 5 && (
             <Alert severity="info" sx={{ mb: 3 }}>
-              Maximum of 5 URLs can be shortened at once.
+              Maximum of 5 URLs can be shortened at once. Use Bulk Import for longer lists.
             </Alert>
           )}
 
@@ -11,12 +11,13 @@ import {
   Tooltip,
   Divider
 } from '@mui/material';
-import { Copy, ExternalLink, Clock, CheckCircle } from 'lucide-react';
-import { ShortenedURL } from '../types';
+import { Copy, ExternalLink, Clock, CheckCircle, Lock, CalendarClock, Repeat } from 'lucide-react';
+import { ShortenResult } from '../types';
 import { logger } from '../services/loggingService';
+import { getURLStatus, URL_STATUS_DISPLAY } from '../utils/urlStatus';
 
 interface URLResultsProps {
-  results: ShortenedURL[];
+  results: ShortenResult[];
   onClear: () => void;
 }
 
@@ -63,6 +64,9 @@ const URLResults: React.FC<URLResultsProps> = ({ results, onClear }) => {
     return null;
   }
 
+  const reusedCount = results.filter(result => result.reused).length;
+  const createdCount = results.length - reusedCount;
+
   return (
     <Card elevation={3}>
       <CardContent>
@@ -76,11 +80,15 @@ const URLResults: React.FC<URLResultsProps> = ({ results, onClear }) => {
         </Box>
 
         <Alert severity="success" sx={{ mb: 3 }}>
-          Successfully shortened {results.length} URL{results.length > 1 ? 's' : ''}!
+          {createdCount > 0
+            ? `Successfully shortened ${createdCount} URL${createdCount === 1 ? '' : 's'}!`
+            : 'No new links were needed.'}
+          {reusedCount > 0 &&
+            ` ${reusedCount} destination${reusedCount === 1 ? ' already has' : 's already have'} an active link, which was reused.`}
         </Alert>
 
         {results.map((result, index) => (
-          <Card key={result.id} variant="outlined" sx={{ mb: 2 }}>
+          <Card key={`${result.id}-${index}`} variant="outlined" sx={{ mb: 2 }}>
             <CardContent>
               <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
                 <Chip 
@@ -89,12 +97,26 @@ const URLResults: React.FC<URLResultsProps> = ({ results, onClear }) => {
                   color="primary" 
                   variant="outlined" 
                 />
-                <Chip
-                  icon={isExpired(result.expiresAt) ? <Clock size={14} /> : <CheckCircle size={14} />}
-                  label={isExpired(result.expiresAt) ? 'Expired' : 'Active'}
-                  size="small"
-                  color={isExpired(result.expiresAt) ? 'error' : 'success'}
-                />
+                <Box display="flex" gap={1}>
+                  {result.reused && (
+                    <Tooltip title="This destination already had an active short link, so it was returned instead of creating a new one">
+                      <Chip icon={<Repeat size={14} />} label="Existing link reused" size="small" color="warning" />
+                    </Tooltip>
+                  )}
+                  {result.passwordHash && (
+                    <Chip icon={<Lock size={14} />} label="Password protected" size="small" variant="outlined" />
+                  )}
+                  <Chip
+                    icon={{
+                      scheduled: <CalendarClock size={14} />,
+                      active: <CheckCircle size={14} />,
+                      expired: <Clock size={14} />
+                    }[getURLStatus(result)]}
+                    label={URL_STATUS_DISPLAY[getURLStatus(result)].label}
+                    size="small"
+                    color={URL_STATUS_DISPLAY[getURLStatus(result)].color}
+                  />
+                </Box>
               </Box>
 
               <Box mb={2}>
@@ -171,6 +193,16 @@ const URLResults: React.FC<URLResultsProps> = ({ results, onClear }) => {
                     {formatDate(result.createdAt)}
                   </Typography>
                 </Box>
+                {result.activatesAt && (
+                  <Box>
+                    <Typography variant="body2" color="text.secondary">
+                      Activates
+                    </Typography>
+                    <Typography variant="body2" color="info.main">
+                      {formatDate(result.activatesAt)}
+                    </Typography>
+                  </Box>
+                )}
                 <Box>
                   <Typography variant="body2" color="text.secondary">
                     Expires
@@ -190,6 +222,16 @@ const URLResults: React.FC<URLResultsProps> = ({ results, onClear }) => {
                     {result.shortCode}
                   </Typography>
                 </Box>
+                {result.maxClicks !== undefined && (
+                  <Box>
+                    <Typography variant="body2" color="text.secondary">
+                      Click Limit
+                    </Typography>
+                    <Typography variant="body2">
+                      {result.maxClicks === 1 ? 'One-time link' : `${result.maxClicks} clicks`}
+                    </Typography>
+                  </Box>
+                )}
               </Box>
             </CardContent>
           </Card>
@@ -0,0 +1,144 @@
+import React from 'react';
+import {
+  TableRow,
+  TableCell,
+  Typography,
+  Box,
+  Chip,
+  Button,
+  IconButton,
+  Tooltip
+} from '@mui/material';
+import { ExternalLink, Pencil, Trash2, CalendarClock, Lock, Tag, Folder, Split } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { getURLStatus, URL_STATUS_DISPLAY } from '../utils/urlStatus';
+import { formatDateTime } from '../utils/dateTime';
+import { countLimitedClicks, countRealClicks } from '../utils/clickMetrics';
+import { getDomainLabel } from '../utils/domains';
+
+interface URLTableRowProps {
+  url: ShortenedURL;
+  onViewDetails: (url: ShortenedURL) => void;
+  onManageExpiry: (url: ShortenedURL) => void;
+  onEdit: (url: ShortenedURL) => void;
+  onDelete: (url: ShortenedURL) => void;
+}
+
+const URLTableRow: React.FC<URLTableRowProps> = ({ url, onViewDetails, onManageExpiry, onEdit, onDelete }) => {
+  return (
+    <TableRow hover>
+      <TableCell>
+        <Box display="flex" alignItems="center" gap={0.5}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+            {url.shortCode}
+          </Typography>
+          {url.passwordHash && (
+            <Tooltip title="Password protected">
+              <Lock size={14} />
+            </Tooltip>
+          )}
+          {url.splitDestinations && (
+            <Tooltip title={`A/B split across ${url.splitDestinations.length} destinations`}>
+              <Split size={14} />
+            </Tooltip>
+          )}
+        </Box>
+        {url.domain && (
+          <Typography variant="caption" color="text.secondary">
+            {getDomainLabel(url.domain)}
+          </Typography>
+        )}
+      </TableCell>
+      <TableCell>
+        <Typography 
+          variant="body2" 
+          sx={{ 
+            maxWidth: 300, 
+            overflow: 'hidden', 
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap'
+          }}
+          title={url.originalUrl}
+        >
+          {url.originalUrl}
+        </Typography>
+        {(url.folder || (url.tags && url.tags.length > 0)) && (
+          <Box display="flex" gap={0.5} flexWrap="wrap" mt={0.5}>
+            {url.folder && (
+              <Chip icon={<Folder size={12} />} label={url.folder} size="small" variant="outlined" />
+            )}
+            {url.tags?.map(tag => (
+              <Chip key={tag} icon={<Tag size={12} />} label={tag} size="small" />
+            ))}
+          </Box>
+        )}
+      </TableCell>
+      <TableCell align="center">
+        <Chip
+          label={URL_STATUS_DISPLAY[getURLStatus(url)].label}
+          size="small"
+          color={URL_STATUS_DISPLAY[getURLStatus(url)].color}
+        />
+      </TableCell>
+      <TableCell align="center">
+        <Typography variant="body2" fontWeight="medium">
+          {url.maxClicks !== undefined
+            ? `${countLimitedClicks(url.clicks)} / ${url.maxClicks}`
+            : countRealClicks(url.clicks)}
+        </Typography>
+      </TableCell>
+      <TableCell>
+        <Typography variant="body2">
+          {formatDateTime(url.createdAt)}
+        </Typography>
+      </TableCell>
+      <TableCell>
+        <Typography 
+          variant="body2"
+          color={getURLStatus(url) === 'expired' ? 'error.main' : 'text.primary'}
+        >
+          {formatDateTime(url.expiresAt)}
+        </Typography>
+      </TableCell>
+      <TableCell align="center">
+        <Box display="flex" gap={1} justifyContent="center">
+          <Button
+            size="small"
+            variant="outlined"
+            onClick={() => onViewDetails(url)}
+          >
+            Details
+          </Button>
+          <Button
+            size="small"
+            variant="outlined"
+            component="a"
+            href={url.shortUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            startIcon={<ExternalLink size={14} />}
+          >
+            Visit
+          </Button>
+          <Tooltip title="Manage expiry">
+            <IconButton size="small" onClick={() => onManageExpiry(url)}>
+              <CalendarClock size={16} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Edit">
+            <IconButton size="small" onClick={() => onEdit(url)}>
+              <Pencil size={16} />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Delete">
+            <IconButton size="small" color="error" onClick={() => onDelete(url)}>
+              <Trash2 size={16} />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+export default URLTableRow;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Box, Button, Collapse, IconButton, MenuItem, TextField, Tooltip, Typography } from '@mui/material';
+import { Megaphone, Save, Trash2 } from 'lucide-react';
+import { UTMParams, UTMPreset } from '../types';
+import { settingsService } from '../services/settingsService';
+import { logger } from '../services/loggingService';
+import { UTM_FIELDS, REQUIRED_UTM_FIELDS, applyUTMParams, normalizeUTMParams } from '../utils/utm';
+
+interface UTMBuilderProps {
+  value?: UTMParams;
+  onChange: (utm: UTMParams | undefined) => void;
+  // Destination the parameters are added to, used for the preview
+  originalUrl: string;
+  error?: string;
+}
+
+const UTMBuilder: React.FC<UTMBuilderProps> = ({ value, onChange, originalUrl, error }) => {
+  const [open, setOpen] = useState(!!normalizeUTMParams(value));
+  const [presets, setPresets] = useState<UTMPreset[]>(() => settingsService.getSettings().utmPresets);
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const updateField = (key: keyof UTMParams, fieldValue: string) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const savePresets = (nextPresets: UTMPreset[]) => {
+    try {
+      setPresets(settingsService.updateSettings({ utmPresets: nextPresets }).utmPresets);
+    } catch (err) {
+      logger.error('Failed to save UTM presets', 'UTMBuilder', { error: err });
+    }
+  };
+
+  const handleApplyPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(candidate => candidate.name === name);
+    if (preset) {
+      onChange({ ...preset.params });
+      setPresetName(preset.name);
+      logger.info('UTM preset applied', 'UTMBuilder', { name });
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    const params = normalizeUTMParams(value);
+    if (!name || !params) {
+      return;
+    }
+
+    // Saving under an existing name replaces that preset
+    savePresets([...presets.filter(preset => preset.name !== name), { name, params }]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedPreset(name);
+    logger.info('UTM preset saved', 'UTMBuilder', { name });
+  };
+
+  const handleDeletePreset = () => {
+    savePresets(presets.filter(preset => preset.name !== selectedPreset));
+    logger.info('UTM preset deleted', 'UTMBuilder', { name: selectedPreset });
+    setSelectedPreset('');
+  };
+
+  const composedUrl = applyUTMParams(originalUrl, value);
+  const hasParams = !!normalizeUTMParams(value);
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        startIcon={<Megaphone size={16} />}
+        onClick={() => setOpen(!open)}
+        color={error ? 'error' : 'primary'}
+      >
+        {open ? 'Hide campaign tracking (UTM)' : hasParams ? 'Edit campaign tracking (UTM)' : 'Add campaign tracking (UTM)'}
+      </Button>
+
+      <Collapse in={open}>
+        <Box display="flex" flexDirection="column" gap={2} mt={1}>
+          <Box display="flex" gap={1} alignItems="center" flexWrap="wrap">
+            <TextField
+              select
+              size="small"
+              label="Preset"
+              value={selectedPreset}
+              onChange={(e) => handleApplyPreset(e.target.value)}
+              disabled={presets.length === 0}
+              sx={{ minWidth: 180 }}
+            >
+              {presets.map(preset => (
+                <MenuItem key={preset.name} value={preset.name}>
+                  {preset.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            {selectedPreset && (
+              <Tooltip title="Delete this preset">
+                <IconButton size="small" color="error" onClick={handleDeletePreset}>
+                  <Trash2 size={16} />
+                </IconButton>
+              </Tooltip>
+            )}
+            <TextField
+              size="small"
+              label="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              sx={{ minWidth: 160 }}
+            />
+            <Button
+              size="small"
+              startIcon={<Save size={16} />}
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || !hasParams}
+            >
+              Save as preset
+            </Button>
+          </Box>
+
+          <Box display="flex" gap={2} flexWrap="wrap">
+            {UTM_FIELDS.map(field => (
+              <TextField
+                key={field.key}
+                size="small"
+                label={REQUIRED_UTM_FIELDS.includes(field.key) ? field.label : `${field.label} (optional)`}
+                placeholder={field.placeholder}
+                value={value?.[field.key] || ''}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                sx={{ flex: '1 1 160px' }}
+              />
+            ))}
+          </Box>
+
+          {error && (
+            <Typography variant="caption" color="error">
+              {error}
+            </Typography>
+          )}
+
+          {hasParams && originalUrl.trim() && (
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Final URL (values are lowercased):
+              </Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {composedUrl}
+              </Typography>
+            </Box>
+          )}
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default UTMBuilder;
@@ -1,10 +1,24 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { urlService } from './services/urlService';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const root = createRoot(document.getElementById('root')!);
+
+// Links load asynchronously from the storage backend, so render once they are in memory
+urlService.whenReady()
+  .then(() => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>
+    );
+  })
+  .catch((error) => {
+    root.render(
+      <p style={{ padding: 24, fontFamily: 'sans-serif' }}>
+        {error instanceof Error ? error.message : 'Failed to open link storage'}
+      </p>
+    );
+  });
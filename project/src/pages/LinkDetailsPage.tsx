@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link as RouterLink } from 'react-router-dom';
+import { Container, Box, Typography, Button, Alert } from '@mui/material';
+import { ArrowLeft, BarChart3, CalendarClock, ExternalLink, Pencil, Sparkles, Split, Trash2 } from 'lucide-react';
+import { ShortenedURL } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import LinkInfoCard from '../components/LinkInfoCard';
+import LinkClickAnalytics from '../components/LinkClickAnalytics';
+import EditURLDialog from '../components/EditURLDialog';
+import ExpiryDialog from '../components/ExpiryDialog';
+import DeleteURLDialog from '../components/DeleteURLDialog';
+import SplitDestinationsDialog from '../components/SplitDestinationsDialog';
+import RedirectRulesCard from '../components/RedirectRulesCard';
+import { getLinkDetailsPath } from '../utils/routes';
+
+const LinkDetailsPage: React.FC = () => {
+  const { shortCode } = useParams<{ shortCode: string }>();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const domain = searchParams.get('domain') || undefined;
+  const [url, setUrl] = useState<ShortenedURL | null>(null);
+  const [editingUrl, setEditingUrl] = useState<ShortenedURL | null>(null);
+  const [expiryUrl, setExpiryUrl] = useState<ShortenedURL | null>(null);
+  const [deletingUrl, setDeletingUrl] = useState<ShortenedURL | null>(null);
+  const [splitUrl, setSplitUrl] = useState<ShortenedURL | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadURL = useCallback(() => {
+    const found = shortCode ? urlService.getURLByShortCode(shortCode, domain) : null;
+    setUrl(found);
+    logger.info('Link details loaded', 'LinkDetailsPage', { shortCode, domain, found: !!found });
+  }, [shortCode, domain]);
+
+  useEffect(() => {
+    loadURL();
+  }, [loadURL]);
+
+  const handleEditSaved = (updated: ShortenedURL) => {
+    setEditingUrl(null);
+    setUrl(updated);
+    // A renamed shortcode changes this page's address too
+    if (updated.shortCode !== shortCode) {
+      navigate(getLinkDetailsPath(updated.shortCode, updated.domain), { replace: true });
+    }
+  };
+
+  const handleExpiryUpdated = (updated: ShortenedURL) => {
+    setExpiryUrl(updated);
+    setUrl(updated);
+  };
+
+  const handleSplitSaved = (updated: ShortenedURL) => {
+    setSplitUrl(null);
+    setUrl(updated);
+  };
+
+  const handleConfirmDelete = (target: ShortenedURL) => {
+    try {
+      urlService.deleteURL(target.id);
+      navigate('/statistics');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete URL';
+      setActionError(errorMessage);
+      logger.error('Failed to delete URL', 'LinkDetailsPage', { id: target.id, error: errorMessage });
+    } finally {
+      setDeletingUrl(null);
+    }
+  };
+
+  const handleSeedDemoClicks = async (target: ShortenedURL) => {
+    try {
+      setUrl(await urlService.seedDemoClicks(target.id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to seed demo clicks';
+      setActionError(errorMessage);
+      logger.error('Failed to seed demo clicks', 'LinkDetailsPage', { id: target.id, error: errorMessage });
+    }
+  };
+
+  const handleClearDemoClicks = async (target: ShortenedURL) => {
+    try {
+      setUrl(await urlService.clearDemoClicks(target.id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to clear demo clicks';
+      setActionError(errorMessage);
+      logger.error('Failed to clear demo clicks', 'LinkDetailsPage', { id: target.id, error: errorMessage });
+    }
+  };
+
+  if (!url) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Alert
+          severity="warning"
+          action={
+            <Button color="inherit" component={RouterLink} to="/statistics">
+              Back to Statistics
+            </Button>
+          }
+        >
+          No short link with the code "{shortCode}" exists.
+        </Alert>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      <Box display="flex" flexDirection="column" gap={3}>
+        <Box display="flex" alignItems="center" gap={2} flexWrap="wrap">
+          <Button component={RouterLink} to="/statistics" startIcon={<ArrowLeft size={16} />}>
+            All Links
+          </Button>
+          <BarChart3 size={28} />
+          <Typography variant="h4" component="h1" sx={{ fontFamily: 'monospace', flexGrow: 1 }}>
+            {url.shortCode}
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<ExternalLink size={16} />}
+            href={url.shortUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            Visit
+          </Button>
+          <Button variant="outlined" startIcon={<Pencil size={16} />} onClick={() => setEditingUrl(url)}>
+            Edit
+          </Button>
+          <Button variant="outlined" startIcon={<CalendarClock size={16} />} onClick={() => setExpiryUrl(url)}>
+            Manage Expiry
+          </Button>
+          <Button variant="outlined" startIcon={<Split size={16} />} onClick={() => setSplitUrl(url)}>
+            A/B Split
+          </Button>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<Trash2 size={16} />}
+            onClick={() => setDeletingUrl(url)}
+          >
+            Delete
+          </Button>
+        </Box>
+
+        {actionError && (
+          <Alert severity="error" onClose={() => setActionError(null)}>
+            {actionError}
+          </Alert>
+        )}
+
+        <LinkInfoCard url={url} variant="elevation" />
+
+        <RedirectRulesCard url={url} onSaved={setUrl} variant="elevation" />
+
+        <LinkClickAnalytics
+          url={url}
+          dimensions={['source', 'location', 'browser', 'os', 'device']}
+          historyRowsPerPage={25}
+          variant="elevation"
+        />
+
+        <Box>
+          <Button
+            color="secondary"
+            startIcon={<Sparkles size={16} />}
+            onClick={() => handleSeedDemoClicks(url)}
+          >
+            Seed Demo Clicks
+          </Button>
+          {url.clicks.some(click => click.isDemo) && (
+            <Button color="secondary" onClick={() => handleClearDemoClicks(url)}>
+              Clear Demo Clicks
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      <EditURLDialog
+        url={editingUrl}
+        onClose={() => setEditingUrl(null)}
+        onSaved={handleEditSaved}
+      />
+
+      <ExpiryDialog
+        url={expiryUrl}
+        onClose={() => setExpiryUrl(null)}
+        onUpdated={handleExpiryUpdated}
+      />
+
+      <SplitDestinationsDialog
+        url={splitUrl}
+        onClose={() => setSplitUrl(null)}
+        onSaved={handleSplitSaved}
+      />
+
+      <DeleteURLDialog
+        url={deletingUrl}
+        onClose={() => setDeletingUrl(null)}
+        onConfirm={handleConfirmDelete}
+      />
+    </Container>
+  );
+};
+
+export default LinkDetailsPage;
@@ -0,0 +1,603 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  MenuItem,
+  FormControlLabel,
+  Switch
+} from '@mui/material';
+import { Ban, CaseSensitive, Globe, Hash, Repeat, Settings, Shield, Users } from 'lucide-react';
+import { ShortcodeRename, ShortcodeStrategy, ShortenedURL } from '../types';
+import { settingsService } from '../services/settingsService';
+import { urlService } from '../services/urlService';
+import { logger } from '../services/loggingService';
+import { getRouteSegments } from '../utils/routes';
+import { DEFAULT_RESERVED_SHORTCODES, normalizeReservedShortcode } from '../utils/reservedShortcodes';
+import { MIN_SHORTCODE_LENGTH, MAX_SHORTCODE_LENGTH } from '../utils/shortcodeGenerator';
+import { findBlockedWord } from '../utils/profanityFilter';
+import { getDefaultBaseUrl, normalizeBaseUrl, validateBaseUrl } from '../utils/domains';
+
+const MAX_DEDUP_WINDOW_MINUTES = 24 * 60;
+
+const splitWords = (text: string): string[] => text.split(/[\s,]+/).filter(Boolean);
+
+const STRATEGY_OPTIONS: Record<ShortcodeStrategy, { label: string; description: string }> = {
+  random: {
+    label: 'Random',
+    description: 'Cryptographically random letters and numbers.'
+  },
+  unambiguous: {
+    label: 'Unambiguous random',
+    description: 'Random, without look-alike characters such as 0/O and 1/l/I. Easier to read aloud or retype.'
+  },
+  sequential: {
+    label: 'Sequential',
+    description: 'A counter encoded in base62, so codes are handed out in order.'
+  },
+  hash: {
+    label: 'Hash of destination',
+    description: 'Derived from the destination URL, so the same URL gets the same code where it is still free.'
+  }
+};
+
+const SettingsPage: React.FC = () => {
+  const [dedupWindowMinutes, setDedupWindowMinutes] = useState(
+    String(settingsService.getSettings().dedupWindowMinutes)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [reservedText, setReservedText] = useState(settingsService.getSettings().reservedShortcodes.join(', '));
+  const [reservedError, setReservedError] = useState<string | null>(null);
+  const [reservedSaved, setReservedSaved] = useState(false);
+  const [strategy, setStrategy] = useState<ShortcodeStrategy>(settingsService.getSettings().shortcodeStrategy);
+  const [shortcodeLength, setShortcodeLength] = useState(String(settingsService.getSettings().shortcodeLength));
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [generationSaved, setGenerationSaved] = useState(false);
+  const [denyText, setDenyText] = useState(urlService.getWordLists().deny.join(', '));
+  const [allowText, setAllowText] = useState(urlService.getWordLists().allow.join(', '));
+  const [wordListError, setWordListError] = useState<string | null>(null);
+  const [wordListSaved, setWordListSaved] = useState(false);
+  const [testShortcode, setTestShortcode] = useState('');
+  const [caseInsensitive, setCaseInsensitive] = useState(settingsService.getSettings().caseInsensitiveShortcodes);
+  const [pendingCollisions, setPendingCollisions] = useState<ShortenedURL[][] | null>(null);
+  const [renames, setRenames] = useState<ShortcodeRename[] | null>(null);
+  const [matchingError, setMatchingError] = useState<string | null>(null);
+  const [baseUrl, setBaseUrl] = useState(settingsService.getSettings().baseUrl);
+  const [domainsText, setDomainsText] = useState(settingsService.getSettings().brandedDomains.join('\n'));
+  const [domainError, setDomainError] = useState<string | null>(null);
+  const [domainSaved, setDomainSaved] = useState(false);
+  const [reuseLinks, setReuseLinks] = useState(settingsService.getSettings().reuseExistingLinks);
+  const [ignoreTracking, setIgnoreTracking] = useState(settingsService.getSettings().ignoreTrackingWhenReusing);
+  const [reuseError, setReuseError] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    logger.info('SettingsPage mounted', 'SettingsPage');
+  }, []);
+
+  const handleSaveTracking = () => {
+    const minutes = Number(dedupWindowMinutes);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_DEDUP_WINDOW_MINUTES) {
+      setError(`Deduplication window must be a whole number between 0 and ${MAX_DEDUP_WINDOW_MINUTES} minutes`);
+      setSaved(false);
+      return;
+    }
+
+    try {
+      settingsService.updateSettings({ dedupWindowMinutes: minutes });
+      setError(null);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+      setSaved(false);
+    }
+  };
+
+  const handleSaveReserved = () => {
+    const codes = [...new Set(reservedText.split(/[\s,]+/).map(normalizeReservedShortcode).filter(Boolean))];
+    const invalidCode = codes.find(code => !/^[a-z0-9_-]+$/.test(code));
+    if (invalidCode) {
+      setReservedError(`"${invalidCode}" can only contain letters, numbers, hyphens and underscores`);
+      setReservedSaved(false);
+      return;
+    }
+
+    try {
+      settingsService.updateSettings({ reservedShortcodes: codes });
+      setReservedText(codes.join(', '));
+      setReservedError(null);
+      setReservedSaved(true);
+    } catch (err) {
+      setReservedError(err instanceof Error ? err.message : 'Failed to save settings');
+      setReservedSaved(false);
+    }
+  };
+
+  const handleSaveGeneration = () => {
+    const length = Number(shortcodeLength);
+    if (!Number.isInteger(length) || length < MIN_SHORTCODE_LENGTH || length > MAX_SHORTCODE_LENGTH) {
+      setGenerationError(`Length must be a whole number between ${MIN_SHORTCODE_LENGTH} and ${MAX_SHORTCODE_LENGTH}`);
+      setGenerationSaved(false);
+      return;
+    }
+
+    try {
+      settingsService.updateSettings({ shortcodeStrategy: strategy, shortcodeLength: length });
+      setGenerationError(null);
+      setGenerationSaved(true);
+    } catch (err) {
+      setGenerationError(err instanceof Error ? err.message : 'Failed to save settings');
+      setGenerationSaved(false);
+    }
+  };
+
+  const handleSaveWordLists = async () => {
+    try {
+      const saved = await urlService.updateWordLists({ allow: splitWords(allowText), deny: splitWords(denyText) });
+      setDenyText(saved.deny.join(', '));
+      setAllowText(saved.allow.join(', '));
+      setWordListError(null);
+      setWordListSaved(true);
+    } catch (err) {
+      setWordListError(err instanceof Error ? err.message : 'Failed to save word lists');
+      setWordListSaved(false);
+    }
+  };
+
+  const handleSaveDomains = () => {
+    const entries = [baseUrl, ...domainsText.split(/\s+/)].map(value => value.trim()).filter(Boolean);
+    const invalid = entries.map(validateBaseUrl).find(result => !result.isValid);
+    if (invalid) {
+      setDomainError(invalid.error ?? 'Invalid domain');
+      setDomainSaved(false);
+      return;
+    }
+
+    const normalizedBase = baseUrl.trim() ? normalizeBaseUrl(baseUrl) : '';
+    const brandedDomains = [...new Set(domainsText.split(/\s+/).filter(Boolean).map(normalizeBaseUrl))]
+      .filter(domain => domain !== normalizedBase);
+
+    try {
+      settingsService.updateSettings({ baseUrl: normalizedBase, brandedDomains });
+      urlService.refreshShortUrls();
+      setBaseUrl(normalizedBase);
+      setDomainsText(brandedDomains.join('\n'));
+      setDomainError(null);
+      setDomainSaved(true);
+    } catch (err) {
+      setDomainError(err instanceof Error ? err.message : 'Failed to save settings');
+      setDomainSaved(false);
+    }
+  };
+
+  const handleReuseChange = (changes: { reuseExistingLinks?: boolean; ignoreTrackingWhenReusing?: boolean }) => {
+    try {
+      const updated = settingsService.updateSettings(changes);
+      setReuseLinks(updated.reuseExistingLinks);
+      setIgnoreTracking(updated.ignoreTrackingWhenReusing);
+      setReuseError(null);
+    } catch (err) {
+      setReuseError(err instanceof Error ? err.message : 'Failed to save settings');
+    }
+  };
+
+  const applyCaseInsensitive = async (enabled: boolean) => {
+    try {
+      const applied = await urlService.setCaseInsensitiveShortcodes(enabled);
+      setCaseInsensitive(enabled);
+      setPendingCollisions(null);
+      setRenames(applied);
+      setMatchingError(null);
+    } catch (err) {
+      setMatchingError(err instanceof Error ? err.message : 'Failed to change shortcode matching');
+    }
+  };
+
+  // Collisions are confirmed first because enabling renames links that visitors may already use
+  const handleToggleCaseInsensitive = (enabled: boolean) => {
+    setRenames(null);
+    const collisions = enabled ? urlService.getCaseCollisions() : [];
+    if (collisions.length > 0) {
+      setPendingCollisions(collisions);
+      logger.info('Case collisions found before enabling case-insensitive matching', 'SettingsPage', {
+        groups: collisions.length
+      });
+      return;
+    }
+    applyCaseInsensitive(enabled);
+  };
+
+  const pendingRenameCount = pendingCollisions?.reduce((sum, group) => sum + group.length - 1, 0) ?? 0;
+
+  // Previews the lists being edited, before they are saved
+  const testMatch = testShortcode
+    ? findBlockedWord(testShortcode, { allow: splitWords(allowText), deny: splitWords(denyText) })
+    : null;
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box display="flex" flexDirection="column" gap={4}>
+        <Box display="flex" alignItems="center" gap={2}>
+          <Settings size={32} />
+          <Typography variant="h4" component="h1">
+            Settings
+          </Typography>
+        </Box>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Users size={20} />
+              <Typography variant="h6">Click Tracking</Typography>
+            </Box>
+
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            {saved && (
+              <Alert severity="success" onClose={() => setSaved(false)} sx={{ mb: 2 }}>
+                Tracking settings saved. They apply to clicks recorded from now on.
+              </Alert>
+            )}
+
+            <Box display="flex" gap={2} alignItems="flex-start">
+              <TextField
+                label="Deduplication window (minutes)"
+                type="number"
+                value={dedupWindowMinutes}
+                onChange={(e) => {
+                  setDedupWindowMinutes(e.target.value);
+                  setSaved(false);
+                }}
+                inputProps={{ min: 0, max: MAX_DEDUP_WINDOW_MINUTES }}
+                helperText="Repeat clicks from the same browser session within this window count once. 0 disables deduplication."
+                sx={{ flex: 1 }}
+              />
+              <Button variant="contained" onClick={handleSaveTracking} sx={{ mt: 1 }}>
+                Save
+              </Button>
+            </Box>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Globe size={20} />
+              <Typography variant="h6">Domains</Typography>
+            </Box>
+
+            {domainError && (
+              <Alert severity="error" onClose={() => setDomainError(null)} sx={{ mb: 2 }}>
+                {domainError}
+              </Alert>
+            )}
+            {domainSaved && (
+              <Alert severity="success" onClose={() => setDomainSaved(false)} sx={{ mb: 2 }}>
+                Domains saved. Short URLs now use {getDefaultBaseUrl()} unless a link has a branded domain.
+              </Alert>
+            )}
+
+            <Box display="flex" flexDirection="column" gap={2}>
+              <TextField
+                label="Base URL"
+                value={baseUrl}
+                onChange={(e) => {
+                  setBaseUrl(e.target.value);
+                  setDomainSaved(false);
+                }}
+                placeholder={window.location.origin}
+                helperText="Where short links are served. Leave empty to use the address this app is opened from."
+              />
+              <TextField
+                label="Branded domains"
+                multiline
+                minRows={2}
+                value={domainsText}
+                onChange={(e) => {
+                  setDomainsText(e.target.value);
+                  setDomainSaved(false);
+                }}
+                placeholder={'https://go.example.com\nhttps://links.example.org'}
+                helperText="One per line. Each must point at this app; shortcodes only need to be unique within a domain."
+              />
+              <Box>
+                <Button variant="contained" onClick={handleSaveDomains}>
+                  Save
+                </Button>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Hash size={20} />
+              <Typography variant="h6">Shortcode Generation</Typography>
+            </Box>
+
+            {generationError && (
+              <Alert severity="error" onClose={() => setGenerationError(null)} sx={{ mb: 2 }}>
+                {generationError}
+              </Alert>
+            )}
+            {generationSaved && (
+              <Alert severity="success" onClose={() => setGenerationSaved(false)} sx={{ mb: 2 }}>
+                Generation settings saved. They apply to links created from now on.
+              </Alert>
+            )}
+
+            <Box display="flex" gap={2} alignItems="flex-start" flexWrap="wrap">
+              <TextField
+                select
+                label="Strategy"
+                value={strategy}
+                onChange={(e) => {
+                  setStrategy(e.target.value as ShortcodeStrategy);
+                  setGenerationSaved(false);
+                }}
+                helperText={STRATEGY_OPTIONS[strategy].description}
+                sx={{ flex: 2, minWidth: 240 }}
+              >
+                {(Object.keys(STRATEGY_OPTIONS) as ShortcodeStrategy[]).map(option => (
+                  <MenuItem key={option} value={option}>
+                    {STRATEGY_OPTIONS[option].label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Minimum length"
+                type="number"
+                value={shortcodeLength}
+                onChange={(e) => {
+                  setShortcodeLength(e.target.value);
+                  setGenerationSaved(false);
+                }}
+                inputProps={{ min: MIN_SHORTCODE_LENGTH, max: MAX_SHORTCODE_LENGTH }}
+                helperText="Codes grow longer automatically as links fill the available space."
+                sx={{ flex: 1, minWidth: 180 }}
+              />
+              <Button variant="contained" onClick={handleSaveGeneration} sx={{ mt: 1 }}>
+                Save
+              </Button>
+            </Box>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Repeat size={20} />
+              <Typography variant="h6">Duplicate Destinations</Typography>
+            </Box>
+
+            {reuseError && (
+              <Alert severity="error" onClose={() => setReuseError(null)} sx={{ mb: 2 }}>
+                {reuseError}
+              </Alert>
+            )}
+
+            <Box display="flex" flexDirection="column">
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={reuseLinks}
+                    onChange={(e) => handleReuseChange({ reuseExistingLinks: e.target.checked })}
+                  />
+                }
+                label="Reuse an existing active link when the same destination is shortened again"
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={ignoreTracking}
+                    disabled={!reuseLinks}
+                    onChange={(e) => handleReuseChange({ ignoreTrackingWhenReusing: e.target.checked })}
+                  />
+                }
+                label="Ignore tracking parameters (utm_*, fbclid, gclid...) and #fragments when comparing"
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              Destinations are compared after normalizing letter case in the host, default ports and query
+              parameter order. Requests with a custom shortcode, password, click limit or activation time always
+              create a new link. Links that are password-protected, have a click limit, an A/B split or redirect
+              rules are never reused, and neither are links that expire sooner than the new one would or sit in a
+              different folder or lack a requested tag.
+            </Typography>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <CaseSensitive size={20} />
+              <Typography variant="h6">Shortcode Matching</Typography>
+            </Box>
+
+            {matchingError && (
+              <Alert severity="error" onClose={() => setMatchingError(null)} sx={{ mb: 2 }}>
+                {matchingError}
+              </Alert>
+            )}
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={caseInsensitive || !!pendingCollisions}
+                  onChange={(e) => handleToggleCaseInsensitive(e.target.checked)}
+                  disabled={!!pendingCollisions}
+                />
+              }
+              label="Ignore letter case in shortcodes"
+            />
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              When on, "Promo" and "promo" open the same link, which helps when codes are read aloud or printed.
+              Custom codes may also use hyphens and underscores, e.g. summer-sale-2026.
+            </Typography>
+
+            {pendingCollisions && (
+              <Alert
+                severity="warning"
+                sx={{ mt: 2 }}
+                action={
+                  <Box display="flex" flexDirection="column" gap={1}>
+                    <Button color="inherit" size="small" onClick={() => applyCaseInsensitive(true)}>
+                      Rename and enable
+                    </Button>
+                    <Button color="inherit" size="small" onClick={() => setPendingCollisions(null)}>
+                      Cancel
+                    </Button>
+                  </Box>
+                }
+              >
+                <Typography variant="body2" mb={1}>
+                  {pendingRenameCount} link{pendingRenameCount === 1 ? '' : 's'} would share a code with an older
+                  link once case is ignored. The oldest link keeps its code; newer ones get a numbered code, and
+                  their old short URLs stop working.
+                </Typography>
+                {pendingCollisions.map(([oldest, ...newer]) => (
+                  <Typography key={oldest.id} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                    {oldest.shortCode} keeps its code; renaming {newer.map(url => url.shortCode).join(', ')}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+
+            {renames && (
+              <Alert severity="success" onClose={() => setRenames(null)} sx={{ mt: 2 }}>
+                {caseInsensitive ? 'Case-insensitive matching enabled.' : 'Case-sensitive matching restored.'}
+                {renames.map(rename => (
+                  <Typography key={rename.id} variant="body2" sx={{ fontFamily: 'monospace' }}>
+                    {rename.from} → {rename.to}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Shield size={20} />
+              <Typography variant="h6">Word Screening</Typography>
+            </Box>
+
+            {wordListError && (
+              <Alert severity="error" onClose={() => setWordListError(null)} sx={{ mb: 2 }}>
+                {wordListError}
+              </Alert>
+            )}
+            {wordListSaved && (
+              <Alert severity="success" onClose={() => setWordListSaved(false)} sx={{ mb: 2 }}>
+                Word lists saved with your link data. Existing links keep their codes.
+              </Alert>
+            )}
+
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              Generated and custom shortcodes are checked against a built-in list of offensive words,
+              including look-alike spellings such as "5h1t". Add your own words to block, or allow words the
+              built-in list catches by mistake.
+            </Typography>
+
+            <Box display="flex" flexDirection="column" gap={2}>
+              <TextField
+                label="Also block"
+                multiline
+                minRows={2}
+                value={denyText}
+                onChange={(e) => {
+                  setDenyText(e.target.value);
+                  setWordListSaved(false);
+                }}
+                helperText="Blocked anywhere inside a shortcode. Separate words with commas or spaces."
+              />
+              <TextField
+                label="Always allow"
+                multiline
+                minRows={2}
+                value={allowText}
+                onChange={(e) => {
+                  setAllowText(e.target.value);
+                  setWordListSaved(false);
+                }}
+                helperText='Words that contain a blocked word but are fine, e.g. "scunthorpe".'
+              />
+              <Box display="flex" gap={2} alignItems="flex-start">
+                <TextField
+                  label="Test a shortcode"
+                  value={testShortcode}
+                  onChange={(e) => setTestShortcode(e.target.value)}
+                  error={!!testMatch}
+                  helperText={testShortcode ? (testMatch ? `Blocked: contains "${testMatch}"` : 'Allowed') : ' '}
+                  sx={{ flex: 1 }}
+                />
+                <Button variant="contained" onClick={handleSaveWordLists} sx={{ mt: 1 }}>
+                  Save
+                </Button>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent>
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Ban size={20} />
+              <Typography variant="h6">Reserved Shortcodes</Typography>
+            </Box>
+
+            {reservedError && (
+              <Alert severity="error" onClose={() => setReservedError(null)} sx={{ mb: 2 }}>
+                {reservedError}
+              </Alert>
+            )}
+            {reservedSaved && (
+              <Alert severity="success" onClose={() => setReservedSaved(false)} sx={{ mb: 2 }}>
+                Reserved shortcodes saved. Existing links keep their codes.
+              </Alert>
+            )}
+
+            <Typography variant="body2" color="text.secondary" mb={1}>
+              These codes can never be used for links, regardless of letter case:
+            </Typography>
+            <Box display="flex" flexWrap="wrap" gap={0.5} mb={2}>
+              {[...new Set([...getRouteSegments(), ...DEFAULT_RESERVED_SHORTCODES])].sort().map(code => (
+                <Chip key={code} label={code} size="small" sx={{ fontFamily: 'monospace' }} />
+              ))}
+            </Box>
+
+            <Box display="flex" gap={2} alignItems="flex-start">
+              <TextField
+                label="Additional reserved shortcodes"
+                value={reservedText}
+                onChange={(e) => {
+                  setReservedText(e.target.value);
+                  setReservedSaved(false);
+                }}
+                placeholder="docs, status, billing"
+                helperText="Separate codes with commas or spaces."
+                sx={{ flex: 1 }}
+              />
+              <Button variant="contained" onClick={handleSaveReserved} sx={{ mt: 1 }}>
+                Save
+              </Button>
+            </Box>
+          </CardContent>
+        </Card>
+      </Box>
+    </Container>
+  );
+};
+
+export default SettingsPage;
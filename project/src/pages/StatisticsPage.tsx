@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams, Link as RouterLink } from 'react-router-dom';
 import {
   Container,
   Box,
@@ -18,29 +19,70 @@ import {
   Dialog,
   DialogTitle,
   DialogContent,
+  DialogActions,
   TablePagination,
-  TextField,
-  InputAdornment,
+  TableSortLabel,
   Grid
 } from '@mui/material';
 import { 
   BarChart3, 
-  ExternalLink, 
-  Search, 
   TrendingUp, 
   Link as LinkIcon, 
   Clock,
-  Eye
+  Eye,
+  Pencil,
+  Trash2,
+  CalendarClock,
+  Tag,
+  Folder,
+  Download,
+  Upload,
+  Sparkles,
+  Users,
+  Bot,
+  Megaphone
 } from 'lucide-react';
-import { ShortenedURL } from '../types';
+import { ShortenedURL, TagStatistics, BackupImportSummary, LinkFilters, LinkSortField } from '../types';
 import { urlService } from '../services/urlService';
 import { logger } from '../services/loggingService';
+import EditURLDialog from '../components/EditURLDialog';
+import DeleteURLDialog from '../components/DeleteURLDialog';
+import ExpiryDialog from '../components/ExpiryDialog';
+import URLTableRow from '../components/URLTableRow';
+import BackupImportDialog from '../components/BackupImportDialog';
+import ClickBreakdowns from '../components/ClickBreakdowns';
+import ClickAnalyticsCharts from '../components/ClickAnalyticsCharts';
+import LinkFilterBar from '../components/LinkFilterBar';
+import LinkInfoCard from '../components/LinkInfoCard';
+import LinkClickAnalytics from '../components/LinkClickAnalytics';
+import { getLinkDetailsPath } from '../utils/routes';
+import { getURLStatus } from '../utils/urlStatus';
+import { groupURLs } from '../utils/linkGrouping';
+import { filtersFromSearchParams, filtersToSearchParams, filterURLs, sortURLs } from '../utils/linkFilters';
+import { createBackup, getBackupFileName } from '../utils/backup';
+import { countRealClicks, getClickMetrics } from '../utils/clickMetrics';
+import { settingsService } from '../services/settingsService';
+
+const SORTABLE_COLUMNS: { field: LinkSortField; label: string; align?: 'center' }[] = [
+  { field: 'shortCode', label: 'Short Code' },
+  { field: 'originalUrl', label: 'Original URL' },
+  { field: 'status', label: 'Status', align: 'center' },
+  { field: 'clicks', label: 'Clicks', align: 'center' },
+  { field: 'createdAt', label: 'Created' },
+  { field: 'expiresAt', label: 'Expires' }
+];
 
 const StatisticsPage: React.FC = () => {
   const [urls, setUrls] = useState<ShortenedURL[]>([]);
-  const [filteredUrls, setFilteredUrls] = useState<ShortenedURL[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [tagStats, setTagStats] = useState<TagStatistics[]>([]);
   const [selectedUrl, setSelectedUrl] = useState<ShortenedURL | null>(null);
+  const [editingUrl, setEditingUrl] = useState<ShortenedURL | null>(null);
+  const [deletingUrl, setDeletingUrl] = useState<ShortenedURL | null>(null);
+  const [expiryUrl, setExpiryUrl] = useState<ShortenedURL | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importSummary, setImportSummary] = useState<BackupImportSummary | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
 
@@ -49,25 +91,35 @@ const StatisticsPage: React.FC = () => {
     logger.info('StatisticsPage mounted', 'StatisticsPage');
   }, []);
 
+  // Filters, grouping and sort order live in the query string so a view can be bookmarked
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+  const { groupBy } = filters;
+
+  const filteredUrls = useMemo(
+    () => sortURLs(filterURLs(urls, filters), filters.sortBy, filters.sortDirection),
+    [urls, filters]
+  );
+
   useEffect(() => {
-    // Filter URLs based on search term
-    const filtered = urls.filter(url => 
-      url.originalUrl.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      url.shortCode.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-    setFilteredUrls(filtered);
     setPage(0); // Reset to first page when filtering
-  }, [urls, searchTerm]);
+  }, [filters]);
+
+  const updateFilters = (changes: Partial<LinkFilters>) => {
+    setSearchParams(filtersToSearchParams({ ...filters, ...changes }), { replace: true });
+  };
+
+  const handleSort = (field: LinkSortField) => {
+    const sortDirection = filters.sortBy === field && filters.sortDirection === 'asc' ? 'desc' : 'asc';
+    updateFilters({ sortBy: field, sortDirection });
+    logger.debug('Links table sorted', 'StatisticsPage', { field, sortDirection });
+  };
 
   const loadStatistics = () => {
     try {
       const allUrls = urlService.getAllURLs();
-      // Sort by creation date (newest first)
-      const sortedUrls = allUrls.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-      setUrls(sortedUrls);
-      logger.info('Statistics loaded', 'StatisticsPage', { urlsCount: sortedUrls.length });
+      setUrls(allUrls);
+      setTagStats(urlService.getTagStatistics());
+      logger.info('Statistics loaded', 'StatisticsPage', { urlsCount: allUrls.length });
     } catch (error) {
       logger.error('Failed to load statistics', 'StatisticsPage', { error });
     }
@@ -82,30 +134,104 @@ const StatisticsPage: React.FC = () => {
     setSelectedUrl(null);
   };
 
-  const formatDate = (date: Date): string => {
-    return date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+  const handleEdit = (url: ShortenedURL) => {
+    setEditingUrl(url);
+    logger.info('Editing URL', 'StatisticsPage', { shortCode: url.shortCode });
+  };
+
+  const handleEditSaved = (updated: ShortenedURL) => {
+    setEditingUrl(null);
+    if (selectedUrl?.id === updated.id) {
+      setSelectedUrl(updated);
+    }
+    loadStatistics();
+    logger.info('URL edit saved', 'StatisticsPage', { shortCode: updated.shortCode });
+  };
+
+  const handleExpiryUpdated = (updated: ShortenedURL) => {
+    setExpiryUrl(updated);
+    if (selectedUrl?.id === updated.id) {
+      setSelectedUrl(updated);
+    }
+    loadStatistics();
+  };
+
+  const handleConfirmDelete = (url: ShortenedURL) => {
+    try {
+      urlService.deleteURL(url.id);
+      if (selectedUrl?.id === url.id) {
+        setSelectedUrl(null);
+      }
+      loadStatistics();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete URL';
+      setActionError(errorMessage);
+      logger.error('Failed to delete URL', 'StatisticsPage', { id: url.id, error: errorMessage });
+    } finally {
+      setDeletingUrl(null);
+    }
+  };
+
+  const handleSeedDemoClicks = async (url: ShortenedURL) => {
+    try {
+      const updated = await urlService.seedDemoClicks(url.id);
+      setSelectedUrl(updated);
+      loadStatistics();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to seed demo clicks';
+      setActionError(errorMessage);
+      logger.error('Failed to seed demo clicks', 'StatisticsPage', { id: url.id, error: errorMessage });
+    }
+  };
+
+  const handleClearDemoClicks = async (url: ShortenedURL) => {
+    try {
+      const updated = await urlService.clearDemoClicks(url.id);
+      setSelectedUrl(updated);
+      loadStatistics();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to clear demo clicks';
+      setActionError(errorMessage);
+      logger.error('Failed to clear demo clicks', 'StatisticsPage', { id: url.id, error: errorMessage });
+    }
+  };
+
+  const handleExportBackup = () => {
+    const backup = createBackup(urlService.getAllURLs());
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const downloadUrl = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = getBackupFileName();
+    link.click();
+    URL.revokeObjectURL(downloadUrl);
+
+    logger.info('Backup exported', 'StatisticsPage', { links: backup.links.length, clicks: backup.clicks.length });
   };
 
-  const isExpired = (expiresAt: Date): boolean => {
-    return new Date() > expiresAt;
+  const handleBackupImported = (summary: BackupImportSummary) => {
+    setImportOpen(false);
+    setImportSummary(summary);
+    setSelectedUrl(null);
+    loadStatistics();
   };
 
   const getStatistics = () => {
     const totalUrls = urls.length;
-    const activeUrls = urls.filter(url => !isExpired(url.expiresAt)).length;
-    const totalClicks = urls.reduce((sum, url) => sum + url.clicks.length, 0);
+    const activeUrls = urls.filter(url => getURLStatus(url) === 'active').length;
+    const scheduledUrls = urls.filter(url => getURLStatus(url) === 'scheduled').length;
+    const clickMetrics = getClickMetrics(urls.flatMap(url => url.clicks));
+    const totalClicks = clickMetrics.rawClicks;
     const avgClicksPerUrl = totalUrls > 0 ? (totalClicks / totalUrls).toFixed(1) : '0';
 
-    return { totalUrls, activeUrls, totalClicks, avgClicksPerUrl };
+    return { totalUrls, activeUrls, scheduledUrls, totalClicks, avgClicksPerUrl, clickMetrics };
   };
 
   const stats = getStatistics();
+  const allClicks = useMemo(() => urls.flatMap(url => url.clicks), [urls]);
+  const allTags = Array.from(new Set(urls.flatMap(url => url.tags || []))).sort();
+  const allFolders = Array.from(new Set(urls.map(url => url.folder).filter((folder): folder is string => !!folder))).sort();
 
   // Pagination
   const paginatedUrls = filteredUrls.slice(
@@ -113,6 +239,48 @@ const StatisticsPage: React.FC = () => {
     page * rowsPerPage + rowsPerPage
   );
 
+  const renderRow = (url: ShortenedURL, key: string) => (
+    <URLTableRow
+      key={key}
+      url={url}
+      onViewDetails={handleViewDetails}
+      onManageExpiry={setExpiryUrl}
+      onEdit={handleEdit}
+      onDelete={setDeletingUrl}
+    />
+  );
+
+  const renderRows = () => {
+    if (groupBy === 'none') {
+      return paginatedUrls.map(url => renderRow(url, url.id));
+    }
+
+    // Group headers summarize the whole filtered set, not just the current page
+    const groupTotals = new Map(groupURLs(filteredUrls, groupBy).map(group => [group.key, group.urls]));
+
+    return groupURLs(paginatedUrls, groupBy).map(group => {
+      const groupUrls = groupTotals.get(group.key) || group.urls;
+      const groupClicks = groupUrls.reduce((sum, url) => sum + countRealClicks(url.clicks), 0);
+
+      return (
+        <React.Fragment key={group.key}>
+          <TableRow sx={{ backgroundColor: 'grey.100' }}>
+            <TableCell colSpan={7}>
+              <Box display="flex" alignItems="center" gap={1}>
+                {{ folder: <Folder size={16} />, tag: <Tag size={16} />, campaign: <Megaphone size={16} /> }[groupBy]}
+                <Typography variant="subtitle2">{group.label}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {groupUrls.length} link{groupUrls.length === 1 ? '' : 's'} · {groupClicks} click{groupClicks === 1 ? '' : 's'}
+                </Typography>
+              </Box>
+            </TableCell>
+          </TableRow>
+          {group.urls.map(url => renderRow(url, `${group.key}-${url.id}`))}
+        </React.Fragment>
+      );
+    });
+  };
+
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
       <Box display="flex" flexDirection="column" gap={4}>
@@ -150,6 +318,11 @@ const StatisticsPage: React.FC = () => {
                 <Typography variant="body2" color="text.secondary">
                   Active URLs
                 </Typography>
+                {stats.scheduledUrls > 0 && (
+                  <Typography variant="caption" color="info.main">
+                    +{stats.scheduledUrls} scheduled
+                  </Typography>
+                )}
               </CardContent>
             </Card>
           </Grid>
@@ -183,118 +356,158 @@ const StatisticsPage: React.FC = () => {
           </Grid>
         </Grid>
 
+        {/* Traffic Quality */}
+        <Card>
+          <CardContent>
+            <Box display="flex" justifyContent="space-around" flexWrap="wrap" gap={3} textAlign="center">
+              <Box>
+                <Users size={24} color="#4caf50" />
+                <Typography variant="h5" color="success.main">
+                  {stats.clickMetrics.uniqueVisitors}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Unique Visitors
+                </Typography>
+              </Box>
+              <Box>
+                <Eye size={24} color="#ff9800" />
+                <Typography variant="h5" color="warning.main">
+                  {stats.clickMetrics.rawClicks}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Raw Clicks
+                </Typography>
+              </Box>
+              <Box>
+                <Bot size={24} color="#757575" />
+                <Typography variant="h5" color="text.secondary">
+                  {stats.clickMetrics.botClicks}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Bot Clicks
+                </Typography>
+              </Box>
+            </Box>
+            <Typography variant="caption" color="text.secondary" display="block" textAlign="center" mt={2}>
+              Repeat clicks from the same browser session within {settingsService.getSettings().dedupWindowMinutes} minutes
+              count as one visitor. Link previews and crawlers are counted as bots.
+            </Typography>
+          </CardContent>
+        </Card>
+
+        {/* Tag Totals */}
+        {tagStats.length > 0 && (
+          <Card>
+            <CardContent>
+              <Box display="flex" alignItems="center" gap={1} mb={2}>
+                <Tag size={20} />
+                <Typography variant="h6">Clicks by Tag</Typography>
+              </Box>
+              <Box display="flex" gap={1} flexWrap="wrap">
+                {tagStats.map(tagStat => (
+                  <Chip
+                    key={tagStat.tag}
+                    label={`${tagStat.tag}: ${tagStat.totalClicks} click${tagStat.totalClicks === 1 ? '' : 's'} · ${tagStat.urlCount} link${tagStat.urlCount === 1 ? '' : 's'}`}
+                    variant={filters.tag === tagStat.tag ? 'filled' : 'outlined'}
+                    color="primary"
+                    onClick={() => updateFilters({ tag: filters.tag === tagStat.tag ? '' : tagStat.tag })}
+                  />
+                ))}
+              </Box>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Click Trends */}
+        {allClicks.length > 0 && (
+          <Box>
+            <Typography variant="h6" gutterBottom>
+              Click Trends
+            </Typography>
+            <ClickAnalyticsCharts clicks={allClicks} />
+          </Box>
+        )}
+
+        {/* Audience Breakdown */}
+        {allClicks.length > 0 && (
+          <Box>
+            <Typography variant="h6" gutterBottom>
+              Audience ({allClicks.length} clicks across all links)
+            </Typography>
+            <ClickBreakdowns clicks={allClicks} />
+          </Box>
+        )}
+
         {/* Search and Controls */}
         <Card>
           <CardContent>
-            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-              <TextField
-                placeholder="Search URLs or short codes..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                InputProps={{
-                  startAdornment: (
-                    <InputAdornment position="start">
-                      <Search size={20} />
-                    </InputAdornment>
-                  ),
-                }}
-                sx={{ minWidth: 300 }}
+            {actionError && (
+              <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+                {actionError}
+              </Alert>
+            )}
+
+            {importSummary && (
+              <Alert severity="success" onClose={() => setImportSummary(null)} sx={{ mb: 2 }}>
+                Backup imported: {importSummary.added} added, {importSummary.overwritten} overwritten,{' '}
+                {importSummary.renamed} renamed, {importSummary.skipped} skipped.
+              </Alert>
+            )}
+
+            <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={2} flexWrap="wrap" mb={2}>
+              <LinkFilterBar
+                filters={filters}
+                onChange={updateFilters}
+                tags={allTags}
+                folders={allFolders}
               />
-              <Button variant="outlined" onClick={loadStatistics}>
-                Refresh Data
-              </Button>
+              <Box display="flex" gap={1}>
+                <Button variant="outlined" startIcon={<Download size={16} />} onClick={handleExportBackup}>
+                  Export Backup
+                </Button>
+                <Button variant="outlined" startIcon={<Upload size={16} />} onClick={() => setImportOpen(true)}>
+                  Import Backup
+                </Button>
+                <Button variant="outlined" onClick={loadStatistics}>
+                  Refresh Data
+                </Button>
+              </Box>
             </Box>
 
             {urls.length === 0 ? (
               <Alert severity="info">
                 No shortened URLs found. Create some URLs first to see statistics.
               </Alert>
+            ) : filteredUrls.length === 0 ? (
+              <Alert severity="info">
+                No links match the current filters.
+              </Alert>
             ) : (
               <>
                 <TableContainer component={Paper} variant="outlined">
                   <Table>
                     <TableHead>
                       <TableRow sx={{ backgroundColor: 'grey.50' }}>
-                        <TableCell>Short Code</TableCell>
-                        <TableCell>Original URL</TableCell>
-                        <TableCell align="center">Status</TableCell>
-                        <TableCell align="center">Clicks</TableCell>
-                        <TableCell>Created</TableCell>
-                        <TableCell>Expires</TableCell>
+                        {SORTABLE_COLUMNS.map(column => (
+                          <TableCell
+                            key={column.field}
+                            align={column.align}
+                            sortDirection={filters.sortBy === column.field ? filters.sortDirection : false}
+                          >
+                            <TableSortLabel
+                              active={filters.sortBy === column.field}
+                              direction={filters.sortBy === column.field ? filters.sortDirection : 'asc'}
+                              onClick={() => handleSort(column.field)}
+                            >
+                              {column.label}
+                            </TableSortLabel>
+                          </TableCell>
+                        ))}
                         <TableCell align="center">Actions</TableCell>
                       </TableRow>
                     </TableHead>
                     <TableBody>
-                      {paginatedUrls.map((url) => (
-                        <TableRow key={url.id} hover>
-                          <TableCell>
-                            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
-                              {url.shortCode}
-                            </Typography>
-                          </TableCell>
-                          <TableCell>
-                            <Typography 
-                              variant="body2" 
-                              sx={{ 
-                                maxWidth: 300, 
-                                overflow: 'hidden', 
-                                textOverflow: 'ellipsis',
-                                whiteSpace: 'nowrap'
-                              }}
-                              title={url.originalUrl}
-                            >
-                              {url.originalUrl}
-                            </Typography>
-                          </TableCell>
-                          <TableCell align="center">
-                            <Chip
-                              label={isExpired(url.expiresAt) ? 'Expired' : 'Active'}
-                              size="small"
-                              color={isExpired(url.expiresAt) ? 'error' : 'success'}
-                            />
-                          </TableCell>
-                          <TableCell align="center">
-                            <Typography variant="body2" fontWeight="medium">
-                              {url.clicks.length}
-                            </Typography>
-                          </TableCell>
-                          <TableCell>
-                            <Typography variant="body2">
-                              {formatDate(url.createdAt)}
-                            </Typography>
-                          </TableCell>
-                          <TableCell>
-                            <Typography 
-                              variant="body2"
-                              color={isExpired(url.expiresAt) ? 'error.main' : 'text.primary'}
-                            >
-                              {formatDate(url.expiresAt)}
-                            </Typography>
-                          </TableCell>
-                          <TableCell align="center">
-                            <Box display="flex" gap={1} justifyContent="center">
-                              <Button
-                                size="small"
-                                variant="outlined"
-                                onClick={() => handleViewDetails(url)}
-                              >
-                                Details
-                              </Button>
-                              <Button
-                                size="small"
-                                variant="outlined"
-                                component="a"
-                                href={url.shortUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                startIcon={<ExternalLink size={14} />}
-                              >
-                                Visit
-                              </Button>
-                            </Box>
-                          </TableCell>
-                        </TableRow>
-                      ))}
+                      {renderRows()}
                     </TableBody>
                   </Table>
                 </TableContainer>
@@ -320,7 +533,7 @@ const StatisticsPage: React.FC = () => {
         <Dialog 
           open={!!selectedUrl} 
           onClose={handleCloseDetails} 
-          maxWidth="md" 
+          maxWidth="lg" 
           fullWidth
         >
           {selectedUrl && (
@@ -330,125 +543,83 @@ const StatisticsPage: React.FC = () => {
               </DialogTitle>
               <DialogContent>
                 <Box display="flex" flexDirection="column" gap={3}>
-                  {/* URL Information */}
-                  <Card variant="outlined">
-                    <CardContent>
-                      <Typography variant="h6" gutterBottom>
-                        URL Information
-                      </Typography>
-                      <Box display="flex" flexDirection="column" gap={2}>
-                        <Box>
-                          <Typography variant="body2" color="text.secondary">
-                            Original URL:
-                          </Typography>
-                          <Typography variant="body1" sx={{ wordBreak: 'break-all' }}>
-                            {selectedUrl.originalUrl}
-                          </Typography>
-                        </Box>
-                        <Box>
-                          <Typography variant="body2" color="text.secondary">
-                            Short URL:
-                          </Typography>
-                          <Typography variant="body1" color="primary.main">
-                            {selectedUrl.shortUrl}
-                          </Typography>
-                        </Box>
-                        <Box display="flex" gap={4}>
-                          <Box>
-                            <Typography variant="body2" color="text.secondary">
-                              Created:
-                            </Typography>
-                            <Typography variant="body1">
-                              {formatDate(selectedUrl.createdAt)}
-                            </Typography>
-                          </Box>
-                          <Box>
-                            <Typography variant="body2" color="text.secondary">
-                              Expires:
-                            </Typography>
-                            <Typography 
-                              variant="body1"
-                              color={isExpired(selectedUrl.expiresAt) ? 'error.main' : 'text.primary'}
-                            >
-                              {formatDate(selectedUrl.expiresAt)}
-                            </Typography>
-                          </Box>
-                        </Box>
-                      </Box>
-                    </CardContent>
-                  </Card>
-
-                  {/* Click Analytics */}
-                  <Card variant="outlined">
-                    <CardContent>
-                      <Typography variant="h6" gutterBottom>
-                        Click Analytics ({selectedUrl.clicks.length} total clicks)
-                      </Typography>
-                      
-                      {selectedUrl.clicks.length === 0 ? (
-                        <Alert severity="info">
-                          No clicks recorded yet for this URL.
-                        </Alert>
-                      ) : (
-                        <TableContainer>
-                          <Table size="small">
-                            <TableHead>
-                              <TableRow>
-                                <TableCell>Timestamp</TableCell>
-                                <TableCell>Source</TableCell>
-                                <TableCell>Location</TableCell>
-                                <TableCell>User Agent</TableCell>
-                              </TableRow>
-                            </TableHead>
-                            <TableBody>
-                              {selectedUrl.clicks
-                                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-                                .map((click) => (
-                                <TableRow key={click.id}>
-                                  <TableCell>
-                                    <Typography variant="body2">
-                                      {formatDate(click.timestamp)}
-                                    </Typography>
-                                  </TableCell>
-                                  <TableCell>
-                                    <Chip 
-                                      label={click.source} 
-                                      size="small" 
-                                      variant="outlined" 
-                                    />
-                                  </TableCell>
-                                  <TableCell>
-                                    <Typography variant="body2">
-                                      {click.location}
-                                    </Typography>
-                                  </TableCell>
-                                  <TableCell>
-                                    <Typography 
-                                      variant="body2" 
-                                      sx={{ 
-                                        maxWidth: 200, 
-                                        overflow: 'hidden', 
-                                        textOverflow: 'ellipsis',
-                                        whiteSpace: 'nowrap'
-                                      }}
-                                      title={click.userAgent}
-                                    >
-                                      {click.userAgent}
-                                    </Typography>
-                                  </TableCell>
-                                </TableRow>
-                              ))}
-                            </TableBody>
-                          </Table>
-                        </TableContainer>
-                      )}
-                    </CardContent>
-                  </Card>
+                  <LinkInfoCard url={selectedUrl} />
+
+                  <LinkClickAnalytics url={selectedUrl} />
                 </Box>
               </DialogContent>
+              <DialogActions>
+                <Box display="flex" gap={1} mr="auto">
+                  <Button
+                    color="secondary"
+                    startIcon={<Sparkles size={16} />}
+                    onClick={() => handleSeedDemoClicks(selectedUrl)}
+                  >
+                    Seed Demo Clicks
+                  </Button>
+                  {selectedUrl.clicks.some(click => click.isDemo) && (
+                    <Button color="secondary" onClick={() => handleClearDemoClicks(selectedUrl)}>
+                      Clear Demo Clicks
+                    </Button>
+                  )}
+                </Box>
+                <Button
+                  color="error"
+                  startIcon={<Trash2 size={16} />}
+                  onClick={() => setDeletingUrl(selectedUrl)}
+                >
+                  Delete
+                </Button>
+                <Button
+                  startIcon={<CalendarClock size={16} />}
+                  onClick={() => setExpiryUrl(selectedUrl)}
+                >
+                  Manage Expiry
+                </Button>
+                <Button
+                  startIcon={<Pencil size={16} />}
+                  onClick={() => handleEdit(selectedUrl)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  startIcon={<BarChart3 size={16} />}
+                  component={RouterLink}
+                  to={getLinkDetailsPath(selectedUrl.shortCode, selectedUrl.domain)}
+                >
+                  Open Full Page
+                </Button>
+                <Button variant="contained" onClick={handleCloseDetails}>
+                  Close
+                </Button>
+              </DialogActions>
             </>
           )}
         </Dialog>
+
+        <EditURLDialog
+          url={editingUrl}
+          onClose={() => setEditingUrl(null)}
+          onSaved={handleEditSaved}
+        />
+
+        <ExpiryDialog
+          url={expiryUrl}
+          onClose={() => setExpiryUrl(null)}
+          onUpdated={handleExpiryUpdated}
+        />
+
+        <DeleteURLDialog
+          url={deletingUrl}
+          onClose={() => setDeletingUrl(null)}
+          onConfirm={handleConfirmDelete}
+        />
+
+        <BackupImportDialog
+          open={importOpen}
+          onClose={() => setImportOpen(false)}
+          onImported={handleBackupImported}
+        />
       </Box>
     </Container>
   );
@@ -1,15 +1,18 @@
 import React, { useState } from 'react';
-import { Container, Box, Alert } from '@mui/material';
+import { Container, Box, Alert, Tabs, Tab, Paper } from '@mui/material';
 import URLForm from '../components/URLForm';
+import BulkImportForm from '../components/BulkImportForm';
 import URLResults from '../components/URLResults';
-import { ShortenedURL, URLFormData } from '../types';
+import { ShortenResult, URLFormData } from '../types';
 import { urlService } from '../services/urlService';
 import { logger } from '../services/loggingService';
 
 const URLShortenerPage: React.FC = () => {
-  const [results, setResults] = useState<ShortenedURL[]>([]);
+  const [results, setResults] = useState<ShortenResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<'single' | 'bulk'>('single');
+  const [bulkFormKey, setBulkFormKey] = useState(0);
 
   React.useEffect(() => {
     logger.info('URLShortenerPage mounted', 'URLShortenerPage');
@@ -24,40 +27,47 @@ const URLShortenerPage: React.FC = () => {
     setError(null);
 
     try {
-      const newResults: ShortenedURL[] = [];
-      
-      for (const urlData of urlsData) {
-        try {
-          const result = urlService.shortenURL(urlData);
-          newResults.push(result);
-          logger.info('URL shortened successfully', 'URLShortenerPage', { 
-            originalUrl: urlData.originalUrl,
-            shortCode: result.shortCode 
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          logger.error('Failed to shorten URL', 'URLShortenerPage', { 
-            originalUrl: urlData.originalUrl,
-            error: errorMessage 
-          });
-          throw new Error(`Failed to shorten "${urlData.originalUrl}": ${errorMessage}`);
-        }
-      }
-
+      // Built as one batch so a failing entry leaves nothing half-created
+      const newResults = await urlService.shortenURLBatch(urlsData);
       setResults(newResults);
       logger.info('All URLs processed successfully', 'URLShortenerPage', { 
-        totalResults: newResults.length 
+        totalResults: newResults.length,
+        reused: newResults.filter(result => result.reused).length
       });
-
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-      setError(errorMessage);
+      setError(`No links were created. ${errorMessage}`);
       logger.error('URL shortening process failed', 'URLShortenerPage', { error: errorMessage });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleBulkSubmit = async (urlsData: URLFormData[]) => {
+    logger.info('Processing bulk import request', 'URLShortenerPage', { 
+      urlsCount: urlsData.length 
+    });
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const newResults = await urlService.shortenURLBatch(urlsData);
+      setResults(newResults);
+      // Remount the import form so its preview starts empty again
+      setBulkFormKey(key => key + 1);
+      logger.info('Bulk import completed', 'URLShortenerPage', { 
+        totalResults: newResults.length 
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
+      setError(`Bulk import failed, no links were created. ${errorMessage}`);
+      logger.error('Bulk import failed', 'URLShortenerPage', { error: errorMessage });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleClearResults = () => {
     setResults([]);
     setError(null);
@@ -73,7 +83,18 @@ const URLShortenerPage: React.FC = () => {
           </Alert>
         )}
 
-        <URLForm onSubmit={handleURLSubmit} isLoading={isLoading} />
+        <Paper>
+          <Tabs value={mode} onChange={(_, value) => setMode(value)} variant="fullWidth">
+            <Tab value="single" label="Single Entry" />
+            <Tab value="bulk" label="Bulk Import (CSV/TSV)" />
+          </Tabs>
+        </Paper>
+
+        {mode === 'single' ? (
+          <URLForm onSubmit={handleURLSubmit} isLoading={isLoading} />
+        ) : (
+          <BulkImportForm key={bulkFormKey} onSubmit={handleBulkSubmit} isLoading={isLoading} />
+        )}
         
         <URLResults results={results} onClear={handleClearResults} />
       </Box>
@@ -0,0 +1,205 @@
+import { ClickData, ShortenedURL, StorageBackend, StoredClickData, StoredShortenedURL, WordLists } from '../types';
+import { logger } from './loggingService';
+import { serializeLink, deserializeURL, serializeClick } from '../utils/serialization';
+import { LocalStorageBackend, LEGACY_STORAGE_KEY, WORD_LISTS_STORAGE_KEY } from './localStorageBackend';
+
+const DB_NAME = 'url_shortener';
+const DB_VERSION = 2;
+const LINKS_STORE = 'links';
+const CLICKS_STORE = 'clicks';
+// Small keyed records that belong with the link data, such as the shortcode word lists
+const META_STORE = 'meta';
+const CLICKS_BY_LINK_INDEX = 'linkId';
+const WORD_LISTS_KEY = 'wordLists';
+
+type StoredLinkRecord = Omit<StoredShortenedURL, 'clicks'>;
+type StoredClickRecord = StoredClickData & { linkId: string };
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const isIndexedDBAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// Links and clicks live in separate object stores so recording a click is a single small insert
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'IndexedDB';
+  // Set when another tab holds an older version of the database open and the upgrade cannot run
+  blocked = false;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private connection: Promise<void> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(LINKS_STORE)) {
+            db.createObjectStore(LINKS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(CLICKS_STORE)) {
+            // Auto-increment keys keep insertion order and avoid collisions between imported click ids
+            const clicks = db.createObjectStore(CLICKS_STORE, { autoIncrement: true });
+            clicks.createIndex(CLICKS_BY_LINK_INDEX, 'linkId');
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE);
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version of the app in another tab upgrade the schema instead of waiting on us
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+            logger.warn('Database closed for an upgrade in another tab', 'IndexedDBBackend');
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => {
+          this.blocked = true;
+          logger.error('Database upgrade blocked by another tab', 'IndexedDBBackend', { version: DB_VERSION });
+          reject(new Error('This app was updated. Close its other open tabs, then reload this page.'));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Some browsers expose indexedDB but refuse to open it (private modes, some webviews). Legacy data is
+  // moved over here once, so every load sees it no matter which runs first.
+  connect(): Promise<void> {
+    if (!this.connection) {
+      this.connection = this.openDatabase().then(() => this.migrateLegacyData());
+    }
+    return this.connection;
+  }
+
+  private async deleteClicksForLink(clicksStore: IDBObjectStore, linkId: string): Promise<void> {
+    const keys = await requestToPromise(clicksStore.index(CLICKS_BY_LINK_INDEX).getAllKeys(linkId));
+    keys.forEach(key => clicksStore.delete(key));
+  }
+
+  // One-time move of data written by the localStorage backend; the old key is removed once copied
+  private async migrateLegacyData(): Promise<void> {
+    const legacyBackend = new LocalStorageBackend();
+    if (localStorage.getItem(WORD_LISTS_STORAGE_KEY) !== null) {
+      await this.saveWordLists(await legacyBackend.loadWordLists());
+      localStorage.removeItem(WORD_LISTS_STORAGE_KEY);
+    }
+
+    if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) {
+      return;
+    }
+
+    const legacyUrls = await legacyBackend.loadURLs();
+    await this.replaceAll(legacyUrls);
+    await legacyBackend.clear();
+
+    logger.info('Migrated localStorage data to IndexedDB', 'IndexedDBBackend', {
+      links: legacyUrls.length,
+      clicks: legacyUrls.reduce((sum, url) => sum + url.clicks.length, 0)
+    });
+  }
+
+  async loadURLs(): Promise<ShortenedURL[]> {
+    await this.connect();
+
+    const db = await this.openDatabase();
+    const transaction = db.transaction([LINKS_STORE, CLICKS_STORE], 'readonly');
+    const [links, clicks] = await Promise.all([
+      requestToPromise<StoredLinkRecord[]>(transaction.objectStore(LINKS_STORE).getAll()),
+      requestToPromise<StoredClickRecord[]>(transaction.objectStore(CLICKS_STORE).getAll())
+    ]);
+
+    const clicksByLink = new Map<string, StoredClickData[]>();
+    for (const { linkId, ...click } of clicks) {
+      clicksByLink.set(linkId, [...(clicksByLink.get(linkId) || []), click]);
+    }
+
+    const urls = links.map(link => deserializeURL({ ...link, clicks: clicksByLink.get(link.id) || [] }));
+    logger.info('URLs loaded from IndexedDB', 'IndexedDBBackend', { count: urls.length, clicks: clicks.length });
+    return urls;
+  }
+
+  async loadWordLists(): Promise<WordLists> {
+    await this.connect();
+    const db = await this.openDatabase();
+    const transaction = db.transaction(META_STORE, 'readonly');
+    const lists = await requestToPromise<WordLists | undefined>(transaction.objectStore(META_STORE).get(WORD_LISTS_KEY));
+    return lists ?? { allow: [], deny: [] };
+  }
+
+  async saveWordLists(lists: WordLists): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(lists, WORD_LISTS_KEY);
+    await transactionDone(transaction);
+    logger.debug('Word lists saved to IndexedDB', 'IndexedDBBackend', { allow: lists.allow.length, deny: lists.deny.length });
+  }
+
+  async saveLinks(urls: ShortenedURL[]): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(LINKS_STORE, 'readwrite');
+    const links = transaction.objectStore(LINKS_STORE);
+    urls.forEach(url => links.put(serializeLink(url)));
+    await transactionDone(transaction);
+    logger.debug('Links saved to IndexedDB', 'IndexedDBBackend', { count: urls.length });
+  }
+
+  async deleteLink(id: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([LINKS_STORE, CLICKS_STORE], 'readwrite');
+    transaction.objectStore(LINKS_STORE).delete(id);
+    await this.deleteClicksForLink(transaction.objectStore(CLICKS_STORE), id);
+    await transactionDone(transaction);
+    logger.debug('Link deleted from IndexedDB', 'IndexedDBBackend', { id });
+  }
+
+  async addClick(linkId: string, click: ClickData): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(CLICKS_STORE, 'readwrite');
+    const record: StoredClickRecord = { ...serializeClick(click), linkId };
+    transaction.objectStore(CLICKS_STORE).add(record);
+    await transactionDone(transaction);
+    logger.debug('Click saved to IndexedDB', 'IndexedDBBackend', { linkId });
+  }
+
+  async replaceAll(urls: ShortenedURL[]): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([LINKS_STORE, CLICKS_STORE], 'readwrite');
+    const links = transaction.objectStore(LINKS_STORE);
+    const clicks = transaction.objectStore(CLICKS_STORE);
+
+    links.clear();
+    clicks.clear();
+    for (const url of urls) {
+      links.put(serializeLink(url));
+      url.clicks.forEach(click => clicks.add({ ...serializeClick(click), linkId: url.id }));
+    }
+
+    await transactionDone(transaction);
+    logger.info('IndexedDB contents replaced', 'IndexedDBBackend', { count: urls.length });
+  }
+
+  // Word lists are settings rather than link data, so they survive a clear
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([LINKS_STORE, CLICKS_STORE], 'readwrite');
+    transaction.objectStore(LINKS_STORE).clear();
+    transaction.objectStore(CLICKS_STORE).clear();
+    await transactionDone(transaction);
+    logger.info('Storage cleared', 'IndexedDBBackend');
+  }
+}
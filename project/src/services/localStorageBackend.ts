@@ -0,0 +1,95 @@
+import { ClickData, ShortenedURL, StorageBackend, StoredShortenedURL, WordLists } from '../types';
+import { logger } from './loggingService';
+import { serializeURL, deserializeURL, serializeClick } from '../utils/serialization';
+
+export const LEGACY_STORAGE_KEY = 'url_shortener_data';
+export const WORD_LISTS_STORAGE_KEY = 'url_shortener_word_lists';
+
+// Keeps everything in a single localStorage string, so every write rewrites the whole data set
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage';
+  private records: StoredShortenedURL[] | null = null;
+
+  private readRecords(): StoredShortenedURL[] {
+    if (this.records === null) {
+      const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+      this.records = data ? JSON.parse(data) : [];
+    }
+    return this.records as StoredShortenedURL[];
+  }
+
+  private writeRecords(records: StoredShortenedURL[]): void {
+    try {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(records));
+      this.records = records;
+      logger.info('URLs saved to localStorage', 'LocalStorageBackend', { count: records.length });
+    } catch (error) {
+      logger.error('Failed to save URLs to localStorage', 'LocalStorageBackend', { error });
+      throw new Error('Failed to save data');
+    }
+  }
+
+  async loadURLs(): Promise<ShortenedURL[]> {
+    try {
+      const urls = this.readRecords().map(deserializeURL);
+      logger.info('URLs loaded from localStorage', 'LocalStorageBackend', { count: urls.length });
+      return urls;
+    } catch (error) {
+      logger.error('Failed to load URLs from localStorage', 'LocalStorageBackend', { error });
+      this.records = [];
+      return [];
+    }
+  }
+
+  async loadWordLists(): Promise<WordLists> {
+    try {
+      const data = localStorage.getItem(WORD_LISTS_STORAGE_KEY);
+      return data ? { allow: [], deny: [], ...JSON.parse(data) } : { allow: [], deny: [] };
+    } catch (error) {
+      logger.error('Failed to load word lists from localStorage', 'LocalStorageBackend', { error });
+      return { allow: [], deny: [] };
+    }
+  }
+
+  async saveWordLists(lists: WordLists): Promise<void> {
+    try {
+      localStorage.setItem(WORD_LISTS_STORAGE_KEY, JSON.stringify(lists));
+    } catch (error) {
+      logger.error('Failed to save word lists to localStorage', 'LocalStorageBackend', { error });
+      throw new Error('Failed to save data');
+    }
+  }
+
+  async saveLinks(urls: ShortenedURL[]): Promise<void> {
+    const records = [...this.readRecords()];
+    for (const url of urls) {
+      const index = records.findIndex(record => record.id === url.id);
+      if (index === -1) {
+        records.push({ ...serializeURL(url), clicks: [] });
+      } else {
+        records[index] = { ...serializeURL(url), clicks: records[index].clicks };
+      }
+    }
+    this.writeRecords(records);
+  }
+
+  async deleteLink(id: string): Promise<void> {
+    this.writeRecords(this.readRecords().filter(record => record.id !== id));
+  }
+
+  async addClick(linkId: string, click: ClickData): Promise<void> {
+    this.writeRecords(this.readRecords().map(record =>
+      record.id === linkId ? { ...record, clicks: [...record.clicks, serializeClick(click)] } : record
+    ));
+  }
+
+  async replaceAll(urls: ShortenedURL[]): Promise<void> {
+    this.writeRecords(urls.map(serializeURL));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    this.records = [];
+    logger.info('Storage cleared', 'LocalStorageBackend');
+  }
+}
@@ -0,0 +1,52 @@
+import { AppSettings } from '../types';
+import { logger } from './loggingService';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  dedupWindowMinutes: 30,
+  shortcodeStrategy: 'random',
+  shortcodeLength: 6,
+  caseInsensitiveShortcodes: false,
+  baseUrl: '',
+  brandedDomains: [],
+  reuseExistingLinks: false,
+  ignoreTrackingWhenReusing: false,
+  utmPresets: [],
+  reservedShortcodes: []
+};
+
+class SettingsService {
+  private readonly SETTINGS_KEY = 'url_shortener_settings';
+  private settings: AppSettings;
+
+  constructor() {
+    this.settings = this.loadSettings();
+  }
+
+  private loadSettings(): AppSettings {
+    try {
+      const data = localStorage.getItem(this.SETTINGS_KEY);
+      return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : { ...DEFAULT_SETTINGS };
+    } catch (error) {
+      logger.error('Failed to load settings', 'SettingsService', { error });
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  getSettings(): AppSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(changes: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.settings, ...changes };
+    try {
+      localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+      logger.info('Settings updated', 'SettingsService', changes);
+    } catch (error) {
+      logger.error('Failed to save settings', 'SettingsService', { error });
+      throw new Error('Failed to save settings');
+    }
+    return this.getSettings();
+  }
+}
+
+export const settingsService = new SettingsService();
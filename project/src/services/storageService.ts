@@ -1,64 +1,64 @@
-import { ShortenedURL } from '../types';
+import { PasswordAttemptRecord, StorageBackend } from '../types';
 import { logger } from './loggingService';
+import { LocalStorageBackend } from './localStorageBackend';
+import { IndexedDBBackend, isIndexedDBAvailable } from './indexedDBBackend';
 
 class StorageService {
-  private readonly STORAGE_KEY = 'url_shortener_data';
+  private readonly PASSWORD_ATTEMPTS_KEY = 'url_shortener_password_attempts';
+  private readonly SHORTCODE_SEQUENCE_KEY = 'url_shortener_shortcode_sequence';
 
-  saveURLs(urls: ShortenedURL[]): void {
+  // Prefers IndexedDB; localStorage remains as a fallback for browsers without it or where it cannot be opened
+  async createBackend(): Promise<StorageBackend> {
+    if (isIndexedDBAvailable()) {
+      const indexedDBBackend = new IndexedDBBackend();
+      try {
+        await indexedDBBackend.connect();
+        logger.info('Storage backend selected', 'StorageService', { backend: indexedDBBackend.name });
+        return indexedDBBackend;
+      } catch (error) {
+        // Falling back here would hide the links already stored in IndexedDB
+        if (indexedDBBackend.blocked) {
+          throw error;
+        }
+        logger.warn('IndexedDB could not be opened, using localStorage', 'StorageService', { error });
+      }
+    }
+
+    const backend = new LocalStorageBackend();
+    logger.info('Storage backend selected', 'StorageService', { backend: backend.name });
+    return backend;
+  }
+
+  savePasswordAttempts(attempts: Record<string, PasswordAttemptRecord>): void {
     try {
-      const serializedData = JSON.stringify(urls.map(url => ({
-        ...url,
-        createdAt: url.createdAt.toISOString(),
-        expiresAt: url.expiresAt.toISOString(),
-        clicks: url.clicks.map(click => ({
-          ...click,
-          timestamp: click.timestamp.toISOString()
-        }))
-      })));
-      localStorage.setItem(this.STORAGE_KEY, serializedData);
-      logger.info('URLs saved to localStorage', 'StorageService', { count: urls.length });
+      localStorage.setItem(this.PASSWORD_ATTEMPTS_KEY, JSON.stringify(attempts));
     } catch (error) {
-      logger.error('Failed to save URLs to localStorage', 'StorageService', { error });
-      throw new Error('Failed to save data');
+      logger.error('Failed to save password attempts', 'StorageService', { error });
     }
   }
 
-  loadURLs(): ShortenedURL[] {
+  loadPasswordAttempts(): Record<string, PasswordAttemptRecord> {
     try {
-      const data = localStorage.getItem(this.STORAGE_KEY);
-      if (!data) {
-        logger.info('No stored URLs found', 'StorageService');
-        return [];
-      }
-
-      const parsed = JSON.parse(data);
-      const urls = parsed.map((url: any) => ({
-        ...url,
-        createdAt: new Date(url.createdAt),
-        expiresAt: new Date(url.expiresAt),
-        isExpired: new Date() > new Date(url.expiresAt),
-        clicks: url.clicks.map((click: any) => ({
-          ...click,
-          timestamp: new Date(click.timestamp)
-        }))
-      }));
-
-      logger.info('URLs loaded from localStorage', 'StorageService', { count: urls.length });
-      return urls;
+      const data = localStorage.getItem(this.PASSWORD_ATTEMPTS_KEY);
+      return data ? JSON.parse(data) : {};
     } catch (error) {
-      logger.error('Failed to load URLs from localStorage', 'StorageService', { error });
-      return [];
+      logger.error('Failed to load password attempts', 'StorageService', { error });
+      return {};
     }
   }
 
-  clearStorage(): void {
+  saveShortcodeSequence(sequence: number): void {
     try {
-      localStorage.removeItem(this.STORAGE_KEY);
-      logger.info('Storage cleared', 'StorageService');
+      localStorage.setItem(this.SHORTCODE_SEQUENCE_KEY, String(sequence));
     } catch (error) {
-      logger.error('Failed to clear storage', 'StorageService', { error });
+      logger.error('Failed to save shortcode sequence', 'StorageService', { error });
     }
   }
+
+  loadShortcodeSequence(): number {
+    const sequence = Number(localStorage.getItem(this.SHORTCODE_SEQUENCE_KEY));
+    return Number.isInteger(sequence) && sequence > 0 ? sequence : 0;
+  }
 }
 
 export const storageService = new StorageService();
\ No newline at end of file
@@ -1,72 +1,483 @@
-import { ShortenedURL, URLFormData, ClickData } from '../types';
+import {
+  ShortenedURL,
+  URLFormData,
+  URLUpdateData,
+  ClickData,
+  ClickResult,
+  RecordClickOptions,
+  PasswordAttemptRecord,
+  TagStatistics,
+  ConflictResolution,
+  BackupImportSummary,
+  StorageBackend,
+  WordLists,
+  ShortcodeRename,
+  ShortenResult,
+  SplitDestination,
+  RedirectRule
+} from '../types';
 import { logger } from './loggingService';
 import { storageService } from './storageService';
-import { generateUniqueShortcode, isShortcodeUnique } from '../utils/shortcodeGenerator';
+import { decodeBase62, generateUniqueShortcode, isShortcodeUnique } from '../utils/shortcodeGenerator';
+import { isReservedShortcode } from '../utils/reservedShortcodes';
+import { getCustomWordLists, normalizeWordList, setCustomWordLists } from '../utils/profanityFilter';
+import { findCaseCollisions, shortcodesMatch } from '../utils/shortcodeMatching';
+import { isSameDestination } from '../utils/urlCanonicalization';
+import { isSameUTMParams, normalizeUTMParams } from '../utils/utm';
+import { buildShortUrl, filterByDomain, getCurrentDomain, getDomainLabel, isSameDomain } from '../utils/domains';
+import { validateExpiryDate, validateRedirectRules, validateSplitDestinations } from '../utils/validation';
+import { generateSalt, hashPassword, verifyPassword } from '../utils/passwordHash';
+import { getURLStatus } from '../utils/urlStatus';
+import { normalizeTags } from '../utils/tags';
+import { getClickContext, describeClick } from '../utils/clickAttribution';
+import { generateDemoClicks } from '../utils/demoData';
+import { parseUserAgent } from '../utils/userAgentParser';
+import { isDuplicateClick, countLimitedClicks, countRealClicks, getClickMetrics } from '../utils/clickMetrics';
+import { pickSplitDestination } from '../utils/splitDestinations';
+import { findMatchingRedirectRule } from '../utils/redirectRules';
+import { settingsService } from './settingsService';
+
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MS = 5 * 60 * 1000;
 
 class URLService {
   private urls: ShortenedURL[] = [];
+  private storage!: StorageBackend;
+  private readonly ready: Promise<void>;
+
+  // The backend is picked asynchronously; nothing touches storage before ready resolves
+  constructor(storage: Promise<StorageBackend>) {
+    this.ready = storage.then(backend => {
+      this.storage = backend;
+      return Promise.all([this.loadURLs(), this.loadWordLists()]);
+    }).then(() => undefined);
+  }
+
+  private async loadWordLists(): Promise<void> {
+    try {
+      setCustomWordLists(await this.storage.loadWordLists());
+    } catch (error) {
+      logger.error('Failed to load word lists', 'URLService', { backend: this.storage.name, error });
+    }
+  }
 
-  constructor() {
-    this.loadURLs();
+  private async loadURLs(): Promise<void> {
+    try {
+      // Short URLs are rebuilt so a changed base URL or domain applies to existing links
+      this.urls = (await this.storage.loadURLs()).map(url => ({ ...url, shortUrl: buildShortUrl(url.shortCode, url.domain) }));
+      logger.info('URLService initialized', 'URLService', { urlCount: this.urls.length, backend: this.storage.name });
+    } catch (error) {
+      logger.error('Failed to load URLs', 'URLService', { backend: this.storage.name, error });
+      this.urls = [];
+    }
+  }
+
+  getWordLists(): WordLists {
+    return getCustomWordLists();
   }
 
-  private loadURLs(): void {
-    this.urls = storageService.loadURLs();
-    logger.info('URLService initialized', 'URLService', { urlCount: this.urls.length });
+  // Existing links keep their codes; the lists only affect codes chosen or generated from now on
+  async updateWordLists(lists: WordLists): Promise<WordLists> {
+    const normalized: WordLists = { allow: normalizeWordList(lists.allow), deny: normalizeWordList(lists.deny) };
+    await this.storage.saveWordLists(normalized);
+    setCustomWordLists(normalized);
+    logger.info('Word lists updated', 'URLService', { allow: normalized.allow.length, deny: normalized.deny.length });
+    return normalized;
   }
 
-  private saveURLs(): void {
-    storageService.saveURLs(this.urls);
+  // Resolves once stored links are in memory; the app waits for this before rendering
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  // Synchronous mutators update memory right away and let the write finish in the background
+  private persist(write: Promise<void>, action: string): void {
+    write.catch(error => {
+      logger.error('Failed to persist change', 'URLService', { action, backend: this.storage.name, error });
+    });
   }
 
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
-  shortenURL(formData: URLFormData): ShortenedURL {
-    logger.info('Starting URL shortening process', 'URLService', { formData });
+  private findURLIndex(id: string): number {
+    const urlIndex = this.urls.findIndex(url => url.id === id);
+    if (urlIndex === -1) {
+      logger.error('URL not found', 'URLService', { id });
+      throw new Error('Short URL not found');
+    }
+    return urlIndex;
+  }
+
+  // Codes only need to be unique within a domain
+  private assertShortcodeAvailable(
+    shortCode: string,
+    domain: string | undefined,
+    excludeId?: string,
+    pendingUrls: ShortenedURL[] = []
+  ): void {
+    if (isReservedShortcode(shortCode)) {
+      logger.error('Reserved shortcode requested', 'URLService', { shortcode: shortCode });
+      throw new Error(`"${shortCode}" is reserved by the app. Please choose a different shortcode.`);
+    }
+
+    const otherUrls = filterByDomain([...this.urls, ...pendingUrls], domain).filter(url => url.id !== excludeId);
+    if (!isShortcodeUnique(shortCode, otherUrls)) {
+      logger.error('Custom shortcode collision', 'URLService', { shortcode: shortCode, domain });
+      throw new Error(`Custom shortcode already exists on ${getDomainLabel(domain)}. Please choose a different one.`);
+    }
+  }
+
+  // Applies the configured strategy; callers advance the sequential counter once the link is stored
+  private generateShortcode(takenUrls: ShortenedURL[], originalUrl?: string): string {
+    const { shortcodeStrategy, shortcodeLength } = settingsService.getSettings();
+    return generateUniqueShortcode(takenUrls, {
+      strategy: shortcodeStrategy,
+      length: shortcodeLength,
+      originalUrl,
+      sequenceStart: storageService.loadShortcodeSequence()
+    });
+  }
+
+  // Moves the sequential counter past stored codes, so numbers from an aborted batch are handed out again
+  private advanceShortcodeSequence(generatedCodes: string[]): void {
+    if (settingsService.getSettings().shortcodeStrategy !== 'sequential' || generatedCodes.length === 0) {
+      return;
+    }
+    const next = Math.max(storageService.loadShortcodeSequence(), ...generatedCodes.map(code => decodeBase62(code) + 1));
+    storageService.saveShortcodeSequence(next);
+  }
+
+  isShortcodeAvailable(shortCode: string, domain?: string): boolean {
+    return isShortcodeUnique(shortCode, filterByDomain(this.urls, domain));
+  }
+
+  // Call after the base URL or branded domains change
+  refreshShortUrls(): void {
+    this.urls = this.urls.map(url => ({ ...url, shortUrl: buildShortUrl(url.shortCode, url.domain) }));
+    logger.info('Short URLs rebuilt', 'URLService', { count: this.urls.length });
+  }
+
+  // Builds a link without storing it; pendingUrls are links from the same batch that are not saved yet
+  private async buildShortenedURL(formData: URLFormData, pendingUrls: ShortenedURL[] = []): Promise<ShortenedURL> {
+    // Hash before touching this.urls so the uniqueness check and insert happen without an await in between
+    let passwordSalt: string | undefined;
+    let passwordHash: string | undefined;
+    if (formData.password) {
+      passwordSalt = generateSalt();
+      passwordHash = await hashPassword(formData.password, passwordSalt);
+    }
 
     const validityMinutes = formData.validityMinutes || 30; // Default 30 minutes
     const createdAt = new Date();
-    const expiresAt = new Date(createdAt.getTime() + validityMinutes * 60 * 1000);
+    // Scheduled links start their validity window when they activate, not when they are created
+    const activatesAt = formData.activatesAt && formData.activatesAt > createdAt ? formData.activatesAt : undefined;
+    const expiresAt = new Date((activatesAt ?? createdAt).getTime() + validityMinutes * 60 * 1000);
 
+    const domain = formData.domain || undefined;
     let shortCode: string;
     
     if (formData.customShortcode) {
-      if (!isShortcodeUnique(formData.customShortcode, this.urls)) {
-        logger.error('Custom shortcode collision', 'URLService', { shortcode: formData.customShortcode });
-        throw new Error('Custom shortcode already exists. Please choose a different one.');
-      }
+      this.assertShortcodeAvailable(formData.customShortcode, domain, undefined, pendingUrls);
       shortCode = formData.customShortcode;
-      logger.info('Using custom shortcode', 'URLService', { shortcode: shortCode });
+      logger.info('Using custom shortcode', 'URLService', { shortcode: shortCode, domain });
     } else {
-      shortCode = generateUniqueShortcode(this.urls);
-      logger.info('Generated automatic shortcode', 'URLService', { shortcode: shortCode });
+      shortCode = this.generateShortcode(filterByDomain([...this.urls, ...pendingUrls], domain), formData.originalUrl);
+      logger.info('Generated automatic shortcode', 'URLService', { shortcode: shortCode, domain });
     }
 
     const shortenedURL: ShortenedURL = {
       id: this.generateId(),
       originalUrl: formData.originalUrl,
       shortCode,
-      shortUrl: `http://localhost:3000/${shortCode}`,
+      shortUrl: buildShortUrl(shortCode, domain),
+      domain,
       createdAt,
+      activatesAt,
       expiresAt,
       isExpired: false,
+      maxClicks: formData.maxClicks,
+      passwordHash,
+      passwordSalt,
+      tags: normalizeTags(formData.tags || []),
+      folder: formData.folder?.trim() || undefined,
+      note: formData.note?.trim() || undefined,
+      utm: normalizeUTMParams(formData.utm),
       clicks: []
     };
 
+    return shortenedURL;
+  }
+
+  // Only plain requests are deduplicated; a custom code, password, click limit or schedule asks for a distinct link
+  private findReusableLink(formData: URLFormData, candidates: ShortenedURL[]): ShortenedURL | null {
+    const { reuseExistingLinks, ignoreTrackingWhenReusing } = settingsService.getSettings();
+    const now = new Date();
+    const isScheduled = !!formData.activatesAt && formData.activatesAt > now;
+    if (
+      !reuseExistingLinks ||
+      formData.customShortcode ||
+      formData.password ||
+      formData.maxClicks !== undefined ||
+      isScheduled
+    ) {
+      return null;
+    }
+
+    // The existing link must stay valid for at least as long as the new one would have
+    const requestedExpiry = now.getTime() + (formData.validityMinutes || 30) * 60 * 1000;
+    const requestedFolder = formData.folder?.trim() || undefined;
+    const requestedTags = normalizeTags(formData.tags || []);
+    const reusable = filterByDomain(candidates, formData.domain || undefined).find(url =>
+      !url.passwordHash &&
+      url.maxClicks === undefined &&
+      // Splits and rules send some visitors elsewhere, so the link is not the destination that was asked for
+      !url.splitDestinations?.length &&
+      !url.redirectRules?.length &&
+      getURLStatus(url, now) === 'active' &&
+      url.expiresAt.getTime() >= requestedExpiry &&
+      url.folder === requestedFolder &&
+      requestedTags.every(tag => url.tags?.includes(tag)) &&
+      // Ignoring tracking strips utm_* from the comparison, so a different campaign needs its own link
+      isSameUTMParams(url.utm, formData.utm) &&
+      isSameDestination(url.originalUrl, formData.originalUrl, { ignoreTracking: ignoreTrackingWhenReusing })
+    );
+
+    if (reusable) {
+      logger.info('Reusing existing link for destination', 'URLService', {
+        shortCode: reusable.shortCode,
+        originalUrl: formData.originalUrl
+      });
+    }
+    return reusable ?? null;
+  }
+
+  async shortenURL(formData: URLFormData): Promise<ShortenResult> {
+    const { password, ...loggableFormData } = formData;
+    logger.info('Starting URL shortening process', 'URLService', {
+      formData: loggableFormData,
+      passwordProtected: !!password
+    });
+
+    await this.ready;
+    const reusable = this.findReusableLink(formData, this.urls);
+    if (reusable) {
+      return { ...reusable, reused: true };
+    }
+
+    const shortenedURL = await this.buildShortenedURL(formData);
+
     this.urls.push(shortenedURL);
-    this.saveURLs();
+    await this.storage.saveLinks([shortenedURL]);
+    this.advanceShortcodeSequence(formData.customShortcode ? [] : [shortenedURL.shortCode]);
 
     logger.info('URL shortened successfully', 'URLService', { 
-      shortCode, 
+      shortCode: shortenedURL.shortCode, 
       originalUrl: formData.originalUrl,
-      expiresAt: expiresAt.toISOString()
+      activatesAt: shortenedURL.activatesAt?.toISOString(),
+      expiresAt: shortenedURL.expiresAt.toISOString(),
+      maxClicks: formData.maxClicks,
+      passwordProtected: !!shortenedURL.passwordHash
     });
 
     return shortenedURL;
   }
 
+  async shortenURLBatch(formDataList: URLFormData[]): Promise<ShortenResult[]> {
+    logger.info('Starting batch URL shortening', 'URLService', { count: formDataList.length });
+    await this.ready;
+
+    const pendingUrls: ShortenedURL[] = [];
+    const generatedCodes: string[] = [];
+    const results: ShortenResult[] = [];
+    for (const [index, formData] of formDataList.entries()) {
+      try {
+        // Repeated destinations within the batch reuse the row created first
+        const reusable = this.findReusableLink(formData, [...this.urls, ...pendingUrls]);
+        if (reusable) {
+          results.push({ ...reusable, reused: true });
+          continue;
+        }
+
+        const shortenedURL = await this.buildShortenedURL(formData, pendingUrls);
+        pendingUrls.push(shortenedURL);
+        results.push(shortenedURL);
+        if (!formData.customShortcode) {
+          generatedCodes.push(shortenedURL.shortCode);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Batch URL shortening aborted', 'URLService', { row: index + 1, error: errorMessage });
+        throw new Error(`Row ${index + 1} (${formData.originalUrl}): ${errorMessage}`);
+      }
+    }
+
+    // Nothing is stored until every row has been built, so a failure leaves existing data untouched
+    this.urls.push(...pendingUrls);
+    await this.storage.saveLinks(pendingUrls);
+    this.advanceShortcodeSequence(generatedCodes);
+
+    logger.info('Batch URL shortening completed', 'URLService', {
+      created: pendingUrls.length,
+      reused: results.length - pendingUrls.length
+    });
+    return results;
+  }
+
+  updateURL(id: string, updates: URLUpdateData): ShortenedURL {
+    logger.info('Updating URL', 'URLService', { id, updates });
+
+    const urlIndex = this.findURLIndex(id);
+    const current = this.urls[urlIndex];
+
+    if (updates.shortCode !== undefined && updates.shortCode !== current.shortCode) {
+      this.assertShortcodeAvailable(updates.shortCode, current.domain, id);
+    }
+
+    const shortCode = updates.shortCode ?? current.shortCode;
+    const updatedURL: ShortenedURL = {
+      ...current,
+      originalUrl: updates.originalUrl ?? current.originalUrl,
+      shortCode,
+      shortUrl: buildShortUrl(shortCode, current.domain),
+      tags: updates.tags !== undefined ? normalizeTags(updates.tags) : current.tags,
+      folder: updates.folder !== undefined ? updates.folder.trim() || undefined : current.folder,
+      note: updates.note !== undefined ? updates.note.trim() || undefined : current.note,
+      splitDestinations: updates.splitDestinations !== undefined
+        ? this.normalizeSplitDestinations(updates.splitDestinations)
+        : current.splitDestinations,
+      redirectRules: updates.redirectRules !== undefined
+        ? this.normalizeRedirectRules(updates.redirectRules)
+        : current.redirectRules
+    };
+
+    this.urls[urlIndex] = updatedURL;
+    this.persist(this.storage.saveLinks([updatedURL]), 'update');
+
+    logger.info('URL updated successfully', 'URLService', {
+      id,
+      shortCode,
+      previousShortCode: current.shortCode,
+      originalUrl: updatedURL.originalUrl
+    });
+
+    return updatedURL;
+  }
+
+  private normalizeSplitDestinations(destinations: SplitDestination[]): SplitDestination[] | undefined {
+    const validation = validateSplitDestinations(destinations);
+    if (!validation.isValid) {
+      logger.error('Invalid split destinations', 'URLService', { error: validation.error });
+      throw new Error(validation.error);
+    }
+
+    if (destinations.length === 0) {
+      return undefined;
+    }
+
+    return destinations.map(destination => ({
+      id: destination.id || this.generateId(),
+      label: destination.label.trim(),
+      url: destination.url.trim(),
+      weight: destination.weight
+    }));
+  }
+
+  private normalizeRedirectRules(rules: RedirectRule[]): RedirectRule[] | undefined {
+    const validation = validateRedirectRules(rules);
+    if (!validation.isValid) {
+      logger.error('Invalid redirect rules', 'URLService', { error: validation.error });
+      throw new Error(validation.error);
+    }
+
+    if (rules.length === 0) {
+      return undefined;
+    }
+
+    return rules.map((rule, index) => ({
+      id: rule.id || this.generateId(),
+      label: rule.label.trim() || `Rule ${index + 1}`,
+      url: rule.url.trim(),
+      conditions: rule.conditions
+    }));
+  }
+
+  renameShortcode(id: string, newShortCode: string): ShortenedURL {
+    logger.info('Renaming shortcode', 'URLService', { id, newShortCode });
+    return this.updateURL(id, { shortCode: newShortCode });
+  }
+
+  deleteURL(id: string): void {
+    const urlIndex = this.findURLIndex(id);
+    const [deletedURL] = this.urls.splice(urlIndex, 1);
+    this.persist(this.storage.deleteLink(id), 'delete');
+
+    logger.info('URL deleted', 'URLService', {
+      id,
+      shortCode: deletedURL.shortCode,
+      clicksRemoved: deletedURL.clicks.length
+    });
+  }
+
+  extendExpiry(id: string, minutes: number): ShortenedURL {
+    const current = this.urls[this.findURLIndex(id)];
+    const expiresAt = new Date(current.expiresAt.getTime() + minutes * 60 * 1000);
+    logger.info('Adjusting URL expiry', 'URLService', { id, minutes });
+    return this.applyExpiry(id, expiresAt, 'extend');
+  }
+
+  setExpiry(id: string, expiresAt: Date): ShortenedURL {
+    logger.info('Setting absolute URL expiry', 'URLService', { id, expiresAt: expiresAt.toISOString() });
+    return this.applyExpiry(id, expiresAt, 'set');
+  }
+
+  revokeURL(id: string): ShortenedURL {
+    logger.info('Revoking URL', 'URLService', { id });
+    return this.applyExpiry(id, new Date(), 'revoke', true);
+  }
+
+  reactivateURL(id: string, validityMinutes: number = 30): ShortenedURL {
+    const expiresAt = new Date(Date.now() + validityMinutes * 60 * 1000);
+    logger.info('Reactivating URL', 'URLService', { id, validityMinutes });
+    return this.applyExpiry(id, expiresAt, 'reactivate', true);
+  }
+
+  private applyExpiry(id: string, expiresAt: Date, action: string, endSchedule: boolean = false): ShortenedURL {
+    const urlIndex = this.findURLIndex(id);
+    const current = this.urls[urlIndex];
+
+    // Revoking or reactivating takes effect now, so a pending activation time no longer applies
+    const isPendingActivation = !!current.activatesAt && current.activatesAt > new Date();
+    const activatesAt = endSchedule && isPendingActivation ? undefined : current.activatesAt;
+
+    const validation = validateExpiryDate(expiresAt, activatesAt ?? current.createdAt);
+    if (!validation.isValid) {
+      logger.error('Invalid expiry change', 'URLService', { id, action, error: validation.error });
+      throw new Error(validation.error);
+    }
+
+    const updatedURL: ShortenedURL = {
+      ...current,
+      activatesAt,
+      expiresAt,
+      isExpired: new Date() > expiresAt
+    };
+
+    this.urls[urlIndex] = updatedURL;
+    this.persist(this.storage.saveLinks([updatedURL]), action);
+
+    logger.info('URL expiry updated', 'URLService', {
+      id,
+      action,
+      shortCode: current.shortCode,
+      previousExpiresAt: current.expiresAt.toISOString(),
+      expiresAt: expiresAt.toISOString()
+    });
+
+    return updatedURL;
+  }
+
   getAllURLs(): ShortenedURL[] {
     // Update expired status before returning
     const now = new Date();
@@ -79,79 +490,380 @@ class URLService {
     return [...this.urls];
   }
 
-  getURLByShortCode(shortCode: string): ShortenedURL | null {
-    const url = this.urls.find(url => url.shortCode === shortCode);
-    logger.debug('Retrieved URL by shortcode', 'URLService', { shortCode, found: !!url });
+  // domain undefined means the default domain
+  getURLByShortCode(shortCode: string, domain?: string): ShortenedURL | null {
+    const url = this.urls.find(url => shortcodesMatch(url.shortCode, shortCode) && isSameDomain(url.domain, domain));
+    logger.debug('Retrieved URL by shortcode', 'URLService', { shortCode, domain, found: !!url });
     return url || null;
   }
 
-  recordClick(shortCode: string): { success: boolean; redirectUrl?: string; error?: string } {
+  // Finds the link a visitor asked for, based on the domain this page is served from. On the default
+  // domain a code that exists only on one branded domain still resolves, so links can be previewed here.
+  resolveShortCode(shortCode: string): ShortenedURL | null {
+    const currentDomain = getCurrentDomain();
+    const exact = this.getURLByShortCode(shortCode, currentDomain);
+    if (exact || currentDomain) {
+      return exact;
+    }
+
+    const matches = this.urls.filter(url => shortcodesMatch(url.shortCode, shortCode));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private async checkPassword(
+    url: ShortenedURL & { passwordHash: string; passwordSalt: string },
+    password?: string
+  ): Promise<ClickResult | null> {
+    const attempts = storageService.loadPasswordAttempts();
+    const record: PasswordAttemptRecord = attempts[url.id] || { failures: 0 };
+    const now = Date.now();
+
+    if (record.lockedUntil && record.lockedUntil > now) {
+      const retryAfterSeconds = Math.ceil((record.lockedUntil - now) / 1000);
+      logger.warn('Password attempt while locked out', 'URLService', { shortCode: url.shortCode, retryAfterSeconds });
+      return {
+        success: false,
+        error: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`,
+        reason: 'too_many_attempts',
+        retryAfterSeconds
+      };
+    }
+
+    if (!password) {
+      logger.info('Password required for short URL', 'URLService', { shortCode: url.shortCode });
+      return { success: false, error: 'This link is password protected', reason: 'password_required' };
+    }
+
+    if (await verifyPassword(password, url.passwordSalt, url.passwordHash)) {
+      if (attempts[url.id]) {
+        delete attempts[url.id];
+        storageService.savePasswordAttempts(attempts);
+      }
+      logger.info('Password accepted', 'URLService', { shortCode: url.shortCode });
+      return null;
+    }
+
+    const failures = record.failures + 1;
+    const isLockedOut = failures >= MAX_PASSWORD_ATTEMPTS;
+    attempts[url.id] = isLockedOut
+      ? { failures: 0, lockedUntil: now + PASSWORD_LOCKOUT_MS }
+      : { failures };
+    storageService.savePasswordAttempts(attempts);
+
+    logger.warn('Failed password attempt', 'URLService', {
+      shortCode: url.shortCode,
+      failures,
+      lockedOut: isLockedOut
+    });
+
+    if (isLockedOut) {
+      const retryAfterSeconds = PASSWORD_LOCKOUT_MS / 1000;
+      return {
+        success: false,
+        error: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`,
+        reason: 'too_many_attempts',
+        retryAfterSeconds
+      };
+    }
+
+    return {
+      success: false,
+      error: 'Incorrect password',
+      reason: 'invalid_password',
+      attemptsRemaining: MAX_PASSWORD_ATTEMPTS - failures
+    };
+  }
+
+  async recordClick(shortCode: string, options: RecordClickOptions = {}): Promise<ClickResult> {
     logger.info('Recording click', 'URLService', { shortCode });
+    await this.ready;
 
-    const urlIndex = this.urls.findIndex(url => url.shortCode === shortCode);
+    const resolved = this.resolveShortCode(shortCode);
+    const urlIndex = resolved ? this.urls.findIndex(url => url.id === resolved.id) : -1;
     
     if (urlIndex === -1) {
       logger.warn('Shortcode not found for click recording', 'URLService', { shortCode });
-      return { success: false, error: 'Short URL not found' };
+      return { success: false, error: 'Short URL not found', reason: 'not_found' };
     }
 
     const url = this.urls[urlIndex];
     const now = new Date();
 
+    if (url.activatesAt && now < url.activatesAt) {
+      logger.warn('Attempted click on scheduled URL before activation', 'URLService', {
+        shortCode,
+        activatesAt: url.activatesAt
+      });
+      return {
+        success: false,
+        error: 'Short URL is not active yet',
+        reason: 'not_yet_active',
+        activatesAt: url.activatesAt
+      };
+    }
+
     if (now > url.expiresAt) {
       logger.warn('Attempted click on expired URL', 'URLService', { shortCode, expiresAt: url.expiresAt });
-      return { success: false, error: 'Short URL has expired' };
+      return { success: false, error: 'Short URL has expired', reason: 'expired' };
+    }
+
+    if (url.maxClicks !== undefined && countLimitedClicks(url.clicks) >= url.maxClicks) {
+      logger.warn('Attempted click beyond click limit', 'URLService', { shortCode, maxClicks: url.maxClicks });
+      return {
+        success: false,
+        error: url.maxClicks === 1
+          ? 'This one-time link has already been used'
+          : `Short URL has reached its limit of ${url.maxClicks} clicks`,
+        reason: 'click_limit_reached'
+      };
     }
 
-    // Generate mock geographical and source data
-    const mockLocations = ['New York, NY', 'Los Angeles, CA', 'Chicago, IL', 'Houston, TX', 'Phoenix, AZ'];
-    const mockSources = ['Direct', 'Google', 'Facebook', 'Twitter', 'Email', 'LinkedIn'];
-    const mockUserAgents = [
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36'
-    ];
+    if (url.passwordHash && url.passwordSalt) {
+      const passwordFailure = await this.checkPassword(
+        { ...url, passwordHash: url.passwordHash, passwordSalt: url.passwordSalt },
+        options.password
+      );
+      if (passwordFailure) {
+        return passwordFailure;
+      }
+    }
+
+    const context = options.context ?? getClickContext();
+    const parsedUserAgent = parseUserAgent(context.userAgent);
+    const isBot = parsedUserAgent.device === 'bot';
+    const { dedupWindowMinutes } = settingsService.getSettings();
+    // Rules are more specific than the split, so a matching rule skips the split entirely
+    const rule = findMatchingRedirectRule(url.redirectRules, {
+      parsedUserAgent,
+      language: context.language,
+      referrer: context.referrer,
+      now
+    });
+    const variant = rule ? undefined : pickSplitDestination(url, context.sessionId);
 
     const clickData: ClickData = {
       id: this.generateId(),
       timestamp: now,
-      source: mockSources[Math.floor(Math.random() * mockSources.length)],
-      location: mockLocations[Math.floor(Math.random() * mockLocations.length)],
-      userAgent: mockUserAgents[Math.floor(Math.random() * mockUserAgents.length)]
+      ...describeClick(context),
+      userAgent: context.userAgent,
+      ...parsedUserAgent,
+      referrer: context.referrer || undefined,
+      language: context.language,
+      timeZone: context.timeZone,
+      sessionId: context.sessionId,
+      isBot,
+      isDuplicate: !isBot && isDuplicateClick(url.clicks, context.sessionId, now, dedupWindowMinutes),
+      variantId: variant?.id,
+      ruleId: rule?.id
     };
 
     this.urls[urlIndex].clicks.push(clickData);
-    this.saveURLs();
+    await this.storage.addClick(url.id, clickData);
 
     logger.info('Click recorded successfully', 'URLService', { 
       shortCode, 
       totalClicks: this.urls[urlIndex].clicks.length,
+      isBot: clickData.isBot,
+      isDuplicate: clickData.isDuplicate,
+      rule: rule?.label,
+      variant: variant?.label,
       clickData 
     });
 
-    return { success: true, redirectUrl: url.originalUrl };
+    return { success: true, redirectUrl: rule?.url ?? variant?.url ?? url.originalUrl };
   }
 
-  getStatistics(): { totalUrls: number; totalClicks: number; activeUrls: number } {
+  // Demo-only: appends fabricated clicks so charts have something to show on a fresh install
+  async seedDemoClicks(id: string, count: number = 25): Promise<ShortenedURL> {
+    const urlIndex = this.findURLIndex(id);
+    const demoClicks = generateDemoClicks(this.urls[urlIndex], count, settingsService.getSettings().dedupWindowMinutes);
+
+    for (const click of demoClicks) {
+      await this.storage.addClick(id, click);
+    }
+
+    const updatedURL: ShortenedURL = {
+      ...this.urls[urlIndex],
+      clicks: [...this.urls[urlIndex].clicks, ...demoClicks]
+    };
+    this.urls[urlIndex] = updatedURL;
+
+    logger.info('Seeded demo clicks', 'URLService', { id, shortCode: updatedURL.shortCode, count });
+    return updatedURL;
+  }
+
+  async clearDemoClicks(id: string): Promise<ShortenedURL> {
+    const urlIndex = this.findURLIndex(id);
+    const current = this.urls[urlIndex];
+    const updatedURL: ShortenedURL = { ...current, clicks: current.clicks.filter(click => !click.isDemo) };
+
+    // Clicks have no per-click delete in the backends, so the stored data is rewritten as a whole
+    this.urls[urlIndex] = updatedURL;
+    await this.storage.replaceAll(this.urls);
+
+    logger.info('Cleared demo clicks', 'URLService', {
+      id,
+      shortCode: current.shortCode,
+      removed: current.clicks.length - updatedURL.clicks.length
+    });
+    return updatedURL;
+  }
+
+  getAllTags(): string[] {
+    const tags = new Set(this.urls.flatMap(url => url.tags || []));
+    return Array.from(tags).sort();
+  }
+
+  getAllFolders(): string[] {
+    const folders = new Set(this.urls.map(url => url.folder).filter((folder): folder is string => !!folder));
+    return Array.from(folders).sort();
+  }
+
+  getTagStatistics(): TagStatistics[] {
+    const statsByTag = new Map<string, TagStatistics>();
+
+    this.urls.forEach(url => {
+      (url.tags || []).forEach(tag => {
+        const stats = statsByTag.get(tag) || { tag, urlCount: 0, totalClicks: 0 };
+        stats.urlCount++;
+        stats.totalClicks += countRealClicks(url.clicks);
+        statsByTag.set(tag, stats);
+      });
+    });
+
+    const tagStats = Array.from(statsByTag.values()).sort((a, b) => b.totalClicks - a.totalClicks);
+    logger.debug('Generated tag statistics', 'URLService', { tagCount: tagStats.length });
+    return tagStats;
+  }
+
+  getStatistics(): {
+    totalUrls: number;
+    totalClicks: number;
+    uniqueVisitors: number;
+    botClicks: number;
+    activeUrls: number;
+    scheduledUrls: number;
+  } {
     const now = new Date();
-    const activeUrls = this.urls.filter(url => now <= url.expiresAt).length;
-    const totalClicks = this.urls.reduce((sum, url) => sum + url.clicks.length, 0);
+    const activeUrls = this.urls.filter(url => getURLStatus(url, now) === 'active').length;
+    const scheduledUrls = this.urls.filter(url => getURLStatus(url, now) === 'scheduled').length;
+    const metrics = getClickMetrics(this.urls.flatMap(url => url.clicks));
 
     const stats = {
       totalUrls: this.urls.length,
-      totalClicks,
-      activeUrls
+      totalClicks: metrics.rawClicks,
+      uniqueVisitors: metrics.uniqueVisitors,
+      botClicks: metrics.botClicks,
+      activeUrls,
+      scheduledUrls
     };
 
     logger.debug('Generated statistics', 'URLService', stats);
     return stats;
   }
 
+  // Picks "<code>2", "<code>3", ... so a renamed import still resembles the original
+  private findRenamedShortcode(shortCode: string, takenUrls: ShortenedURL[]): string {
+    for (let suffix = 2; suffix < 1000; suffix++) {
+      const candidate = `${shortCode}${suffix}`;
+      if (candidate.length > 20) {
+        break;
+      }
+      if (isShortcodeUnique(candidate, takenUrls)) {
+        return candidate;
+      }
+    }
+    // Renamed links are always kept, so the counter can move on straight away
+    const generated = this.generateShortcode(takenUrls);
+    this.advanceShortcodeSequence([generated]);
+    return generated;
+  }
+
+  // resolutions is keyed by the incoming link id; links without a conflict are always added
+  async importBackup(incoming: ShortenedURL[], resolutions: Record<string, ConflictResolution>): Promise<BackupImportSummary> {
+    logger.info('Importing backup', 'URLService', { links: incoming.length });
+
+    const summary: BackupImportSummary = { added: 0, overwritten: 0, renamed: 0, skipped: 0 };
+    let nextUrls = [...this.urls];
+
+    for (const url of incoming) {
+      const existing = filterByDomain(nextUrls, url.domain)
+        .find(existingUrl => shortcodesMatch(existingUrl.shortCode, url.shortCode));
+      let imported = url;
+
+      if (existing) {
+        const resolution = resolutions[url.id] || 'skip';
+        if (resolution === 'skip') {
+          summary.skipped++;
+          continue;
+        }
+
+        if (resolution === 'overwrite') {
+          nextUrls = nextUrls.filter(existingUrl => existingUrl.id !== existing.id);
+          summary.overwritten++;
+        } else {
+          const shortCode = this.findRenamedShortcode(url.shortCode, filterByDomain(nextUrls, url.domain));
+          imported = { ...url, shortCode };
+          summary.renamed++;
+        }
+      } else {
+        summary.added++;
+      }
+
+      if (nextUrls.some(existingUrl => existingUrl.id === imported.id)) {
+        imported = { ...imported, id: this.generateId() };
+      }
+
+      nextUrls.push({ ...imported, shortUrl: buildShortUrl(imported.shortCode, imported.domain) });
+    }
+
+    this.urls = nextUrls;
+    await this.storage.replaceAll(nextUrls);
+
+    logger.info('Backup imported', 'URLService', summary);
+    return summary;
+  }
+
+  // Links that would share a code once case is ignored; the oldest in each group keeps its code
+  getCaseCollisions(): ShortenedURL[][] {
+    return findCaseCollisions(this.urls).map(group =>
+      [...group].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    );
+  }
+
+  // Turning matching case-insensitive renames newer colliding links first so every code stays reachable
+  async setCaseInsensitiveShortcodes(enabled: boolean): Promise<ShortcodeRename[]> {
+    await this.ready;
+    const collisions = enabled ? this.getCaseCollisions() : [];
+    settingsService.updateSettings({ caseInsensitiveShortcodes: enabled });
+
+    const renames: ShortcodeRename[] = [];
+    const renamedUrls: ShortenedURL[] = [];
+    for (const [, ...newer] of collisions) {
+      for (const url of newer) {
+        // Checked against the list with earlier renames applied, now that matching ignores case
+        const takenUrls = filterByDomain(this.urls, url.domain).filter(other => other.id !== url.id);
+        const shortCode = this.findRenamedShortcode(url.shortCode, takenUrls);
+        const renamed = { ...url, shortCode, shortUrl: buildShortUrl(shortCode, url.domain) };
+        this.urls = this.urls.map(other => (other.id === url.id ? renamed : other));
+        renamedUrls.push(renamed);
+        renames.push({ id: url.id, from: url.shortCode, to: shortCode });
+      }
+    }
+
+    if (renamedUrls.length > 0) {
+      await this.storage.saveLinks(renamedUrls);
+    }
+
+    logger.info('Shortcode case sensitivity changed', 'URLService', { caseInsensitive: enabled, renames });
+    return renames;
+  }
+
   clearAllData(): void {
     this.urls = [];
-    this.saveURLs();
+    this.persist(this.storage.clear(), 'clear');
     logger.info('All URL data cleared', 'URLService');
   }
 }
 
-export const urlService = new URLService();
\ No newline at end of file
+export const urlService = new URLService(storageService.createBackend());
\ No newline at end of file
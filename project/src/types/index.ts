@@ -3,24 +3,337 @@ export interface ShortenedURL {
   originalUrl: string;
   shortCode: string;
   shortUrl: string;
+  // Branded domain base URL; undefined means the default domain
+  domain?: string;
   createdAt: Date;
+  activatesAt?: Date;
   expiresAt: Date;
   isExpired: boolean;
+  maxClicks?: number;
+  passwordHash?: string;
+  passwordSalt?: string;
+  tags?: string[];
+  folder?: string;
+  note?: string;
+  // Campaign values the destination was tagged with when the link was created
+  utm?: UTMParams;
+  // A/B split: when set, visitors are sent to one of these instead of originalUrl
+  splitDestinations?: SplitDestination[];
+  // Checked in order before the split and originalUrl; the first matching rule decides the destination
+  redirectRules?: RedirectRule[];
   clicks: ClickData[];
 }
 
+// Every condition that is set must match; an empty list or missing field matches anyone
+export interface RedirectRuleConditions {
+  // Parsed user agent values, e.g. 'iOS' or 'Android'
+  os?: string[];
+  devices?: DeviceType[];
+  browsers?: string[];
+  // Language prefixes matched against navigator.language, e.g. 'de' or 'pt-BR'
+  languages?: string[];
+  // Visitor's local weekday, 0 = Monday as in the heatmap
+  weekdays?: number[];
+  // Visitor's local hour range; toHour is exclusive and a range may wrap past midnight
+  fromHour?: number;
+  toHour?: number;
+  // Case-insensitive substring of the referrer URL
+  referrerContains?: string;
+}
+
+export interface RedirectRule {
+  id: string;
+  label: string;
+  url: string;
+  conditions: RedirectRuleConditions;
+}
+
+// Weights are relative, so 70 and 30 split traffic 70/30; a weight of 0 pauses the variant
+export interface SplitDestination {
+  id: string;
+  label: string;
+  url: string;
+  weight: number;
+}
+
+export interface SplitVariantStatistics {
+  id: string;
+  label: string;
+  url: string;
+  weight: number;
+  // Share of traffic the weights ask for, and the share actually received, both 0-100
+  targetShare: number;
+  clicks: number;
+  uniqueVisitors: number;
+  share: number;
+}
+
+export interface UTMParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+export interface UTMPreset {
+  name: string;
+  params: UTMParams;
+}
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot';
+
+export interface ParsedUserAgent {
+  browser: string;
+  browserVersion?: string;
+  os: string;
+  device: DeviceType;
+}
+
 export interface ClickData {
   id: string;
   timestamp: Date;
   source: string;
   location: string;
   userAgent: string;
+  browser?: string;
+  browserVersion?: string;
+  os?: string;
+  device?: DeviceType;
+  referrer?: string;
+  language?: string;
+  timeZone?: string;
+  sessionId?: string;
+  isBot?: boolean;
+  isDuplicate?: boolean;
+  isDemo?: boolean;
+  // SplitDestination the visitor was sent to, for links with an A/B split
+  variantId?: string;
+  // RedirectRule that chose the destination, if any
+  ruleId?: string;
+}
+
+// What the visitor's browser tells us at redirect time
+export interface ClickContext {
+  referrer: string;
+  utmSource?: string;
+  utmMedium?: string;
+  userAgent: string;
+  language: string;
+  timeZone: string;
+  sessionId: string;
+}
+
+// JSON-safe shapes used for persistence and backup files
+export type StoredClickData = Omit<ClickData, 'timestamp'> & {
+  timestamp: string;
+};
+
+export type StoredShortenedURL = Omit<ShortenedURL, 'createdAt' | 'activatesAt' | 'expiresAt' | 'clicks'> & {
+  createdAt: string;
+  activatesAt?: string;
+  expiresAt: string;
+  clicks: StoredClickData[];
+};
+
+// What shortening hands back; reused marks an existing link returned instead of a new one
+export interface ShortenResult extends ShortenedURL {
+  reused?: boolean;
 }
 
 export interface URLFormData {
   originalUrl: string;
   validityMinutes: number;
   customShortcode?: string;
+  domain?: string;
+  maxClicks?: number;
+  password?: string;
+  activatesAt?: Date;
+  tags?: string[];
+  folder?: string;
+  note?: string;
+  // Already applied to originalUrl; kept so links can be grouped by campaign
+  utm?: UTMParams;
+}
+
+export type URLStatus = 'scheduled' | 'active' | 'expired';
+
+export type ClickFailureReason =
+  | 'not_found'
+  | 'not_yet_active'
+  | 'expired'
+  | 'click_limit_reached'
+  | 'password_required'
+  | 'invalid_password'
+  | 'too_many_attempts';
+
+export interface ClickResult {
+  success: boolean;
+  redirectUrl?: string;
+  error?: string;
+  reason?: ClickFailureReason;
+  attemptsRemaining?: number;
+  retryAfterSeconds?: number;
+  activatesAt?: Date;
+}
+
+export interface RecordClickOptions {
+  password?: string;
+  context?: ClickContext;
+}
+
+export interface PasswordAttemptRecord {
+  failures: number;
+  lockedUntil?: number;
+}
+
+export interface URLUpdateData {
+  originalUrl?: string;
+  shortCode?: string;
+  tags?: string[];
+  folder?: string;
+  note?: string;
+  // An empty list removes the split
+  splitDestinations?: SplitDestination[];
+  // An empty list removes all rules
+  redirectRules?: RedirectRule[];
+}
+
+export interface BulkImportRow {
+  rowNumber: number;
+  formData: URLFormData;
+  errors: string[];
+}
+
+export type LinkGroupBy = 'none' | 'folder' | 'tag' | 'campaign';
+
+export interface LinkGroup {
+  key: string;
+  label: string;
+  urls: ShortenedURL[];
+}
+
+export interface ClickMetrics {
+  rawClicks: number;
+  uniqueVisitors: number;
+  botClicks: number;
+  duplicateClicks: number;
+  // Seeded demo clicks, left out of every other count
+  demoClicks: number;
+}
+
+// random and unambiguous use crypto.getRandomValues; hash derives the code from the destination URL
+export type ShortcodeStrategy = 'random' | 'unambiguous' | 'sequential' | 'hash';
+
+export interface ShortcodeRename {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface AppSettings {
+  dedupWindowMinutes: number;
+  shortcodeStrategy: ShortcodeStrategy;
+  // Minimum generated length; codes grow past it automatically as the keyspace fills
+  shortcodeLength: number;
+  // When on, "Promo" and "promo" resolve to the same link and cannot both exist
+  caseInsensitiveShortcodes: boolean;
+  // Base URL for links on the default domain; empty uses the address the app is served from
+  baseUrl: string;
+  brandedDomains: string[];
+  // Return an existing active link for the same destination instead of creating another
+  reuseExistingLinks: boolean;
+  // Compare destinations without tracking parameters and #fragments
+  ignoreTrackingWhenReusing: boolean;
+  utmPresets: UTMPreset[];
+  // Extra shortcodes to block on top of app routes and the built-in list
+  reservedShortcodes: string[];
+}
+
+export type TimeBucket = 'hour' | 'day' | 'week';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TimeSeriesPoint {
+  start: Date;
+  count: number;
+}
+
+export interface BreakdownEntry {
+  label: string;
+  count: number;
+  percentage: number;
+}
+
+export type LinkSortField = 'shortCode' | 'originalUrl' | 'status' | 'clicks' | 'createdAt' | 'expiresAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Dates are yyyy-mm-dd strings and click bounds are raw input text, so they round-trip through the query string
+export interface LinkFilters {
+  search: string;
+  status: URLStatus | '';
+  tag: string;
+  folder: string;
+  createdFrom: string;
+  createdTo: string;
+  expiresFrom: string;
+  expiresTo: string;
+  minClicks: string;
+  maxClicks: string;
+  groupBy: LinkGroupBy;
+  sortBy: LinkSortField;
+  sortDirection: SortDirection;
+}
+
+export interface TagStatistics {
+  tag: string;
+  urlCount: number;
+  totalClicks: number;
+}
+
+// Persistence layer behind URLService. saveLinks only writes link fields; click history
+// changes through addClick, or wholesale through replaceAll.
+// Admin additions to the bundled shortcode word lists
+export interface WordLists {
+  allow: string[];
+  deny: string[];
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  loadURLs(): Promise<ShortenedURL[]>;
+  loadWordLists(): Promise<WordLists>;
+  saveWordLists(lists: WordLists): Promise<void>;
+  saveLinks(urls: ShortenedURL[]): Promise<void>;
+  deleteLink(id: string): Promise<void>;
+  addClick(linkId: string, click: ClickData): Promise<void>;
+  replaceAll(urls: ShortenedURL[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface LinkBackup {
+  schemaVersion: number;
+  exportedAt: string;
+  links: Omit<StoredShortenedURL, 'clicks'>[];
+  clicks: (StoredClickData & { linkId: string })[];
+}
+
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+export interface BackupConflict {
+  incoming: ShortenedURL;
+  existing: ShortenedURL;
+}
+
+export interface BackupImportSummary {
+  added: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
 }
 
 export interface LogLevel {
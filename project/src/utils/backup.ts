@@ -0,0 +1,192 @@
+import { BackupConflict, LinkBackup, ShortenedURL, StoredClickData } from '../types';
+import { logger } from '../services/loggingService';
+import { serializeURL, deserializeURL } from './serialization';
+import { validateURL, validateShortcodeFormat } from './validation';
+import { normalizeShortcode, shortcodesMatch } from './shortcodeMatching';
+import { isSameDomain, validateBaseUrl } from './domains';
+
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export interface ParsedBackup {
+  urls: ShortenedURL[];
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+export const createBackup = (urls: ShortenedURL[]): LinkBackup => {
+  const links = urls.map(url => {
+    const { clicks, ...link } = serializeURL(url);
+    return { link, clicks: clicks.map(click => ({ ...click, linkId: url.id })) };
+  });
+
+  logger.info('Backup created', 'Backup', { links: urls.length });
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    links: links.map(entry => entry.link),
+    clicks: links.flatMap(entry => entry.clicks)
+  };
+};
+
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `url-shortener-backup-${date.toISOString().slice(0, 10)}.json`;
+
+const isSplitDestination = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  typeof value.url === 'string' && validateURL(value.url).isValid &&
+  typeof value.weight === 'number' && value.weight >= 0;
+
+const isRedirectRule = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  typeof value.url === 'string' && validateURL(value.url).isValid &&
+  isRecord(value.conditions);
+
+const validateLink = (link: unknown, index: number): string[] => {
+  const label = `Link ${index + 1}`;
+  if (!isRecord(link)) {
+    return [`${label}: not an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof link.id !== 'string' || !link.id) {
+    errors.push(`${label}: missing id`);
+  }
+
+  // Reserved and blocked words only apply to new codes, so links created before a rule changed still restore
+  if (typeof link.shortCode !== 'string' || !validateShortcodeFormat(link.shortCode).isValid) {
+    errors.push(`${label}: invalid shortcode`);
+  }
+
+  if (typeof link.originalUrl !== 'string' || !validateURL(link.originalUrl).isValid) {
+    errors.push(`${label}: invalid destination URL`);
+  }
+
+  if (!isDateString(link.createdAt) || !isDateString(link.expiresAt)) {
+    errors.push(`${label}: invalid created or expiry date`);
+  }
+
+  if (link.activatesAt !== undefined && !isDateString(link.activatesAt)) {
+    errors.push(`${label}: invalid activation date`);
+  }
+
+  if (link.maxClicks !== undefined && (typeof link.maxClicks !== 'number' || link.maxClicks < 1)) {
+    errors.push(`${label}: invalid click limit`);
+  }
+
+  if (link.tags !== undefined && !(Array.isArray(link.tags) && link.tags.every(tag => typeof tag === 'string'))) {
+    errors.push(`${label}: invalid tags`);
+  }
+
+  if (link.domain !== undefined && (typeof link.domain !== 'string' || !validateBaseUrl(link.domain).isValid)) {
+    errors.push(`${label}: invalid domain`);
+  }
+
+  if (link.utm !== undefined && !(isRecord(link.utm) && Object.values(link.utm).every(value => typeof value === 'string'))) {
+    errors.push(`${label}: invalid UTM parameters`);
+  }
+
+  if (link.splitDestinations !== undefined && !(Array.isArray(link.splitDestinations) && link.splitDestinations.every(isSplitDestination))) {
+    errors.push(`${label}: invalid split destinations`);
+  }
+
+  if (link.redirectRules !== undefined && !(Array.isArray(link.redirectRules) && link.redirectRules.every(isRedirectRule))) {
+    errors.push(`${label}: invalid redirect rules`);
+  }
+
+  if (![link.passwordHash, link.passwordSalt, link.folder, link.note].every(isOptionalString)) {
+    errors.push(`${label}: invalid password, folder or note`);
+  }
+
+  return errors;
+};
+
+const validateClick = (click: unknown, index: number, linkIds: Set<string>): string[] => {
+  const label = `Click ${index + 1}`;
+  if (!isRecord(click)) {
+    return [`${label}: not an object`];
+  }
+
+  if (typeof click.linkId !== 'string' || !linkIds.has(click.linkId)) {
+    return [`${label}: references a link that is not in the backup`];
+  }
+
+  if (typeof click.id !== 'string' || !isDateString(click.timestamp)) {
+    return [`${label}: missing id or invalid timestamp`];
+  }
+
+  return [];
+};
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { urls: [], errors: ['File is not valid JSON'] };
+  }
+
+  if (!isRecord(data) || typeof data.schemaVersion !== 'number') {
+    return { urls: [], errors: ['File is not a URL shortener backup'] };
+  }
+
+  if (data.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    return {
+      urls: [],
+      errors: [`Backup uses schema version ${data.schemaVersion}, but this app only supports up to version ${BACKUP_SCHEMA_VERSION}`]
+    };
+  }
+
+  if (!Array.isArray(data.links) || !Array.isArray(data.clicks)) {
+    return { urls: [], errors: ['Backup is missing its links or clicks'] };
+  }
+
+  const errors = data.links.flatMap(validateLink);
+  const links = data.links as LinkBackup['links'];
+
+  const seenShortcodes = new Set<string>();
+  for (const link of links) {
+    if (typeof link.shortCode === 'string') {
+      const key = `${link.domain || ''} ${normalizeShortcode(link.shortCode)}`;
+      if (seenShortcodes.has(key)) {
+        errors.push(`Shortcode "${link.shortCode}" appears more than once in the backup`);
+      }
+      seenShortcodes.add(key);
+    }
+  }
+
+  const linkIds = new Set(links.map(link => link.id));
+  errors.push(...data.clicks.flatMap((click, index) => validateClick(click, index, linkIds)));
+
+  if (errors.length > 0) {
+    logger.warn('Backup validation failed', 'Backup', { errorCount: errors.length });
+    return { urls: [], errors };
+  }
+
+  const clicksByLink = new Map<string, StoredClickData[]>();
+  for (const { linkId, ...click } of data.clicks as LinkBackup['clicks']) {
+    clicksByLink.set(linkId, [...(clicksByLink.get(linkId) || []), click]);
+  }
+
+  const urls = links.map(link => deserializeURL({ ...link, clicks: clicksByLink.get(link.id) || [] }));
+  logger.info('Backup parsed', 'Backup', { links: urls.length, clicks: data.clicks.length });
+  return { urls, errors: [] };
+};
+
+export const findBackupConflicts = (incoming: ShortenedURL[], existing: ShortenedURL[]): BackupConflict[] =>
+  incoming.flatMap(url => {
+    const match = existing.find(existingUrl =>
+      isSameDomain(existingUrl.domain, url.domain) && shortcodesMatch(existingUrl.shortCode, url.shortCode)
+    );
+    return match ? [{ incoming: url, existing: match }] : [];
+  });
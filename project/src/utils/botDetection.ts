@@ -0,0 +1,7 @@
+// Link unfurlers and mail scanners fetch a link as soon as it is posted or delivered, before any human clicks it
+const LINK_PREVIEW_PATTERN = /slackbot|slack-imgproxy|twitterbot|discordbot|whatsapp|telegrambot|linkedinbot|skypeuripreview|facebookexternalhit|facebookcatalog|pinterestbot|redditbot|embedly|bingpreview|google-read-aloud|googleimageproxy|yahoomailproxy|microsoft office|ms-office|outlook-ios|mimecast|proofpoint|barracuda/i;
+
+const CRAWLER_PATTERN = /bot\b|bot\/|crawl|spider|slurp|preview|headless|phantomjs|curl|wget|python-requests|httpclient|go-http-client|axios|node-fetch|lighthouse/i;
+
+export const isBotUserAgent = (userAgent: string): boolean =>
+  !userAgent.trim() || LINK_PREVIEW_PATTERN.test(userAgent) || CRAWLER_PATTERN.test(userAgent);
@@ -0,0 +1,103 @@
+import { BulkImportRow, URLFormData } from '../types';
+import { logger } from '../services/loggingService';
+import { parseDelimitedText } from './csvParser';
+import { parseTagInput } from './tags';
+import { isShortcodeUnique } from './shortcodeGenerator';
+import { normalizeShortcode } from './shortcodeMatching';
+import { validateURL, validateShortcode, validateValidityMinutes, validateTags } from './validation';
+
+export const MAX_BULK_IMPORT_ROWS = 1000;
+
+type BulkImportColumn = 'url' | 'validity' | 'shortcode' | 'tags';
+
+const DEFAULT_COLUMN_ORDER: BulkImportColumn[] = ['url', 'validity', 'shortcode', 'tags'];
+
+const HEADER_ALIASES: Record<string, BulkImportColumn> = {
+  url: 'url',
+  original_url: 'url',
+  originalurl: 'url',
+  destination: 'url',
+  validity: 'validity',
+  validity_minutes: 'validity',
+  minutes: 'validity',
+  shortcode: 'shortcode',
+  custom_shortcode: 'shortcode',
+  code: 'shortcode',
+  tags: 'tags'
+};
+
+const toHeaderKey = (cell: string): string => cell.toLowerCase().replace(/[\s-]+/g, '_');
+
+const detectHeader = (firstRow: string[]): BulkImportColumn[] | null => {
+  if (HEADER_ALIASES[toHeaderKey(firstRow[0] || '')] !== 'url') {
+    return null;
+  }
+  return firstRow.map(cell => HEADER_ALIASES[toHeaderKey(cell)]);
+};
+
+export const parseBulkImport = (text: string, existingUrls: { shortCode: string }[]): BulkImportRow[] => {
+  const rows = parseDelimitedText(text);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = detectHeader(rows[0]);
+  const columns = header || DEFAULT_COLUMN_ORDER;
+  const dataRows = header ? rows.slice(1) : rows;
+  const seenShortcodes = new Set<string>();
+
+  const parsedRows = dataRows.map((cells, index): BulkImportRow => {
+    const cell = (column: BulkImportColumn) => cells[columns.indexOf(column)] ?? '';
+    const errors: string[] = [];
+
+    const validityCell = cell('validity');
+    const formData: URLFormData = {
+      originalUrl: cell('url'),
+      validityMinutes: validityCell ? Number(validityCell) : 30,
+      customShortcode: cell('shortcode') || undefined,
+      tags: parseTagInput(cell('tags'))
+    };
+
+    const urlValidation = validateURL(formData.originalUrl);
+    if (!urlValidation.isValid) {
+      errors.push(urlValidation.error!);
+    }
+
+    const validityValidation = validateValidityMinutes(formData.validityMinutes);
+    if (!validityValidation.isValid) {
+      errors.push(validityValidation.error!);
+    }
+
+    if (formData.customShortcode) {
+      const shortcodeValidation = validateShortcode(formData.customShortcode);
+      if (!shortcodeValidation.isValid) {
+        errors.push(shortcodeValidation.error!);
+      } else if (!isShortcodeUnique(formData.customShortcode, existingUrls)) {
+        errors.push(`Shortcode "${formData.customShortcode}" already exists`);
+      } else if (seenShortcodes.has(normalizeShortcode(formData.customShortcode))) {
+        errors.push(`Shortcode "${formData.customShortcode}" is used by an earlier row`);
+      }
+      // Normalized so "Promo" and "promo" clash when matching is case-insensitive
+      seenShortcodes.add(normalizeShortcode(formData.customShortcode));
+    }
+
+    const tagsValidation = validateTags(formData.tags);
+    if (!tagsValidation.isValid) {
+      errors.push(tagsValidation.error!);
+    }
+
+    if (index >= MAX_BULK_IMPORT_ROWS) {
+      errors.push(`Only ${MAX_BULK_IMPORT_ROWS} rows can be imported at once`);
+    }
+
+    return { rowNumber: index + 1, formData, errors };
+  });
+
+  logger.info('Bulk import parsed', 'BulkImport', {
+    rows: parsedRows.length,
+    invalidRows: parsedRows.filter(row => row.errors.length > 0).length,
+    hasHeader: !!header
+  });
+
+  return parsedRows;
+};
@@ -0,0 +1,72 @@
+import { ClickContext } from '../types';
+import { logger } from '../services/loggingService';
+import { getVisitorSessionId } from './visitorSession';
+
+// Referrer hosts grouped under the labels the statistics page already used; the first match wins,
+// so webmail hosts come before the search engines that share their domain
+const KNOWN_REFERRERS: { pattern: RegExp; label: string }[] = [
+  { pattern: /(^|\.)(mail\.google\.com|outlook\.live\.com|mail\.yahoo\.com)$/, label: 'Email' },
+  { pattern: /(^|\.)google\./, label: 'Google' },
+  { pattern: /(^|\.)bing\.com$/, label: 'Bing' },
+  { pattern: /(^|\.)duckduckgo\.com$/, label: 'DuckDuckGo' },
+  { pattern: /(^|\.)(facebook\.com|fb\.me|messenger\.com)$/, label: 'Facebook' },
+  { pattern: /(^|\.)(twitter\.com|x\.com|t\.co)$/, label: 'Twitter' },
+  { pattern: /(^|\.)(linkedin\.com|lnkd\.in)$/, label: 'LinkedIn' },
+  { pattern: /(^|\.)(reddit\.com|redd\.it)$/, label: 'Reddit' }
+];
+
+export const getClickContext = (): ClickContext => {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    referrer: document.referrer,
+    utmSource: params.get('utm_source') || undefined,
+    utmMedium: params.get('utm_medium') || undefined,
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    sessionId: getVisitorSessionId()
+  };
+};
+
+const getReferrerHost = (referrer: string): string | null => {
+  try {
+    return new URL(referrer).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// UTM parameters win over the referrer because they are set deliberately by whoever shared the link
+export const deriveSource = (context: ClickContext): string => {
+  if (context.utmSource) {
+    return context.utmMedium ? `${context.utmSource} / ${context.utmMedium}` : context.utmSource;
+  }
+
+  const host = context.referrer ? getReferrerHost(context.referrer) : null;
+  if (!host) {
+    return 'Direct';
+  }
+
+  if (host === window.location.hostname) {
+    return 'Internal';
+  }
+
+  return KNOWN_REFERRERS.find(({ pattern }) => pattern.test(host))?.label ?? host;
+};
+
+// Coarse location from the timezone city and the locale's region, e.g. "New York, US"
+export const deriveLocation = (context: ClickContext): string => {
+  const city = context.timeZone.split('/').pop()?.replace(/_/g, ' ');
+  const region = context.language.split('-')[1]?.toUpperCase();
+
+  if (city && region) {
+    return `${city}, ${region}`;
+  }
+  return city || region || 'Unknown';
+};
+
+export const describeClick = (context: ClickContext): { source: string; location: string } => {
+  const attribution = { source: deriveSource(context), location: deriveLocation(context) };
+  logger.debug('Click attributed', 'ClickAttribution', attribution);
+  return attribution;
+};
@@ -0,0 +1,29 @@
+import { BreakdownEntry, ClickData } from '../types';
+import { getClickUserAgent, DEVICE_LABELS } from './userAgentParser';
+
+export type BreakdownDimension = 'source' | 'location' | 'browser' | 'os' | 'device';
+
+const getDimensionLabel = (click: ClickData, dimension: BreakdownDimension): string => {
+  if (dimension === 'source' || dimension === 'location') {
+    return click[dimension] || 'Unknown';
+  }
+  const parsed = getClickUserAgent(click);
+  return dimension === 'device' ? DEVICE_LABELS[parsed.device] : parsed[dimension];
+};
+
+// Counts clicks per label, largest first
+export const getClickBreakdown = (clicks: ClickData[], dimension: BreakdownDimension): BreakdownEntry[] => {
+  const counts = new Map<string, number>();
+  for (const click of clicks) {
+    const label = getDimensionLabel(click, dimension);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([label, count]) => ({
+      label,
+      count,
+      percentage: clicks.length > 0 ? Math.round((count / clicks.length) * 100) : 0
+    }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
@@ -0,0 +1,42 @@
+import { ClickData, ClickMetrics } from '../types';
+
+// A repeat from the same session within the window is kept for raw counts but flagged as a duplicate
+export const isDuplicateClick = (
+  previousClicks: ClickData[],
+  sessionId: string,
+  now: Date,
+  windowMinutes: number
+): boolean => {
+  const windowStart = now.getTime() - windowMinutes * 60 * 1000;
+  return previousClicks.some(click =>
+    click.sessionId === sessionId && !click.isBot && click.timestamp.getTime() >= windowStart
+  );
+};
+
+// Seeded demo clicks only fill the charts; they never count as traffic
+export const getRealClicks = (clicks: ClickData[]): ClickData[] =>
+  clicks.filter(click => !click.isDemo);
+
+export const countRealClicks = (clicks: ClickData[]): number => getRealClicks(clicks).length;
+
+// A visitor is a browser session; clicks recorded before sessions were tracked each count as their own visitor
+const countDistinctVisitors = (clicks: ClickData[]): number =>
+  new Set(clicks.filter(click => !click.isBot).map(click => click.sessionId ?? click.id)).size;
+
+export const getClickMetrics = (clicks: ClickData[]): ClickMetrics => {
+  const realClicks = getRealClicks(clicks);
+  const botClicks = realClicks.filter(click => click.isBot).length;
+  const duplicateClicks = realClicks.filter(click => !click.isBot && click.isDuplicate).length;
+
+  return {
+    rawClicks: realClicks.length,
+    uniqueVisitors: countDistinctVisitors(realClicks),
+    botClicks,
+    duplicateClicks,
+    demoClicks: clicks.length - realClicks.length
+  };
+};
+
+// Bots and demo clicks don't use up click limits, so neither a Slack preview nor seeding can burn a one-time link
+export const countLimitedClicks = (clicks: ClickData[]): number =>
+  clicks.filter(click => !click.isBot && !click.isDemo).length;
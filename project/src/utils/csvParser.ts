@@ -0,0 +1,57 @@
+export type Delimiter = ',' | '\t';
+
+// Pasted spreadsheet cells come through tab-separated; everything else is treated as CSV
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim().length > 0) || '';
+  return firstLine.includes('\t') ? '\t' : ',';
+};
+
+export const parseDelimitedText = (text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(field.trim());
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.some(cell => cell.length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim().length === 0) {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  endRow();
+  return rows;
+};
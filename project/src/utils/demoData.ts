@@ -0,0 +1,61 @@
+import { ClickData, ShortenedURL } from '../types';
+import { logger } from '../services/loggingService';
+import { parseUserAgent } from './userAgentParser';
+import { isDuplicateClick } from './clickMetrics';
+import { pickSplitDestination } from './splitDestinations';
+
+const DEMO_LOCATIONS = ['New York, NY', 'Los Angeles, CA', 'Chicago, IL', 'Houston, TX', 'Phoenix, AZ'];
+const DEMO_SOURCES = ['Direct', 'Google', 'Facebook', 'Twitter', 'Email', 'LinkedIn'];
+const DEMO_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+  'Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)'
+];
+const DEMO_SESSION_COUNT = 8;
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Fabricated clicks for demos and screenshots; they are flagged so they never pass for real traffic
+export const generateDemoClicks = (
+  url: ShortenedURL,
+  count: number,
+  dedupWindowMinutes: number,
+  now: Date = new Date()
+): ClickData[] => {
+  const start = url.activatesAt ?? url.createdAt;
+  const end = Math.min(now.getTime(), url.expiresAt.getTime());
+  const span = Math.max(end - start.getTime(), 0);
+
+  const timestamps = Array.from({ length: count }, () => new Date(start.getTime() + Math.random() * span))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  // A small pool of sessions so some demo clicks show up as repeat visits
+  const clicks: ClickData[] = [];
+  timestamps.forEach((timestamp, index) => {
+    const userAgent = pick(DEMO_USER_AGENTS);
+    const parsedUserAgent = parseUserAgent(userAgent);
+    const isBot = parsedUserAgent.device === 'bot';
+    const sessionId = `demo-session-${Math.floor(Math.random() * DEMO_SESSION_COUNT)}`;
+
+    clicks.push({
+      id: `demo-${now.getTime().toString(36)}-${index}-${Math.random().toString(36).substr(2, 6)}`,
+      timestamp,
+      source: pick(DEMO_SOURCES),
+      location: pick(DEMO_LOCATIONS),
+      userAgent,
+      ...parsedUserAgent,
+      sessionId,
+      isBot,
+      isDuplicate: !isBot && isDuplicateClick(clicks, sessionId, timestamp, dedupWindowMinutes),
+      isDemo: true,
+      variantId: pickSplitDestination({ ...url, clicks: [...url.clicks, ...clicks] }, sessionId)?.id
+    });
+  });
+
+  logger.debug('Generated demo clicks', 'DemoData', { shortCode: url.shortCode, count });
+  return clicks;
+};
@@ -0,0 +1,47 @@
+import { settingsService } from '../services/settingsService';
+
+// Origin plus any path prefix, without a trailing slash, e.g. "https://go.example.com" or "https://example.com/s"
+export const normalizeBaseUrl = (value: string): string => new URL(value.trim()).origin;
+
+export const validateBaseUrl = (value: string): { isValid: boolean; error?: string } => {
+  try {
+    const url = new URL(value.trim());
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      return { isValid: false, error: `"${value}" must use HTTP or HTTPS` };
+    }
+    if (url.search || url.hash) {
+      return { isValid: false, error: `"${value}" cannot contain a query string or fragment` };
+    }
+    // Short links are served from the root of the app, so a path prefix would produce links that don't resolve
+    if (url.pathname !== '/') {
+      return { isValid: false, error: `"${value}" cannot contain a path; use just the scheme and host` };
+    }
+    return { isValid: true };
+  } catch {
+    return { isValid: false, error: `"${value}" is not a valid URL` };
+  }
+};
+
+const getCurrentOrigin = (): string => (typeof window === 'undefined' ? 'http://localhost:3000' : window.location.origin);
+
+// Links without a domain belong to this one; it follows the setting, or wherever the app is served from
+export const getDefaultBaseUrl = (): string => settingsService.getSettings().baseUrl || getCurrentOrigin();
+
+export const getBrandedDomains = (): string[] => settingsService.getSettings().brandedDomains;
+
+export const buildShortUrl = (shortCode: string, domain?: string): string =>
+  `${(domain || getDefaultBaseUrl()).replace(/\/+$/, '')}/${shortCode}`;
+
+export const getDomainLabel = (domain?: string): string => new URL(domain || getDefaultBaseUrl()).host;
+
+// undefined and '' both mean the default domain
+export const isSameDomain = (a?: string, b?: string): boolean => (a || undefined) === (b || undefined);
+
+export const filterByDomain = <T extends { domain?: string }>(urls: T[], domain?: string): T[] =>
+  urls.filter(url => isSameDomain(url.domain, domain));
+
+// The branded domain this page is served from, or undefined when it is served from the default one
+export const getCurrentDomain = (): string | undefined => {
+  const origin = getCurrentOrigin();
+  return getBrandedDomains().find(domain => new URL(domain).origin === origin);
+};
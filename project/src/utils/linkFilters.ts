@@ -0,0 +1,157 @@
+import { LinkFilters, LinkGroupBy, LinkSortField, ShortenedURL, SortDirection, URLStatus } from '../types';
+import { getURLStatus } from './urlStatus';
+import { countRealClicks } from './clickMetrics';
+
+export const DEFAULT_LINK_FILTERS: LinkFilters = {
+  search: '',
+  status: '',
+  tag: '',
+  folder: '',
+  createdFrom: '',
+  createdTo: '',
+  expiresFrom: '',
+  expiresTo: '',
+  minClicks: '',
+  maxClicks: '',
+  groupBy: 'none',
+  sortBy: 'createdAt',
+  sortDirection: 'desc'
+};
+
+// Query-string keys; kept short and stable because filtered views get bookmarked
+const PARAM_KEYS: Record<keyof LinkFilters, string> = {
+  search: 'q',
+  status: 'status',
+  tag: 'tag',
+  folder: 'folder',
+  createdFrom: 'createdFrom',
+  createdTo: 'createdTo',
+  expiresFrom: 'expiresFrom',
+  expiresTo: 'expiresTo',
+  minClicks: 'minClicks',
+  maxClicks: 'maxClicks',
+  groupBy: 'group',
+  sortBy: 'sort',
+  sortDirection: 'dir'
+};
+
+const STATUSES: URLStatus[] = ['scheduled', 'active', 'expired'];
+const GROUP_BY_VALUES: LinkGroupBy[] = ['none', 'folder', 'tag', 'campaign'];
+const SORT_FIELDS: LinkSortField[] = ['shortCode', 'originalUrl', 'status', 'clicks', 'createdAt', 'expiresAt'];
+const SORT_DIRECTIONS: SortDirection[] = ['asc', 'desc'];
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const filtersFromSearchParams = (params: URLSearchParams): LinkFilters => {
+  const text = (key: keyof LinkFilters) => params.get(PARAM_KEYS[key]) ?? '';
+
+  return {
+    search: text('search'),
+    status: oneOf<URLStatus | ''>(params.get(PARAM_KEYS.status), STATUSES, ''),
+    tag: text('tag'),
+    folder: text('folder'),
+    createdFrom: text('createdFrom'),
+    createdTo: text('createdTo'),
+    expiresFrom: text('expiresFrom'),
+    expiresTo: text('expiresTo'),
+    minClicks: text('minClicks'),
+    maxClicks: text('maxClicks'),
+    groupBy: oneOf(params.get(PARAM_KEYS.groupBy), GROUP_BY_VALUES, DEFAULT_LINK_FILTERS.groupBy),
+    sortBy: oneOf(params.get(PARAM_KEYS.sortBy), SORT_FIELDS, DEFAULT_LINK_FILTERS.sortBy),
+    sortDirection: oneOf(params.get(PARAM_KEYS.sortDirection), SORT_DIRECTIONS, DEFAULT_LINK_FILTERS.sortDirection)
+  };
+};
+
+// Values equal to the defaults are left out so unfiltered views keep a clean URL
+export const filtersToSearchParams = (filters: LinkFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_KEYS) as (keyof LinkFilters)[]).forEach(key => {
+    if (filters[key] !== DEFAULT_LINK_FILTERS[key]) {
+      params.set(PARAM_KEYS[key], filters[key]);
+    }
+  });
+  return params;
+};
+
+export const countActiveFilters = (filters: LinkFilters): number =>
+  (['status', 'tag', 'folder', 'createdFrom', 'createdTo', 'expiresFrom', 'expiresTo', 'minClicks', 'maxClicks'] as const)
+    .filter(key => filters[key] !== DEFAULT_LINK_FILTERS[key]).length;
+
+// Date inputs give local calendar days; "to" bounds include the whole day
+const parseDayStart = (value: string): number | null => {
+  if (!value) {
+    return null;
+  }
+  const time = new Date(`${value}T00:00:00`).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const parseDayEnd = (value: string): number | null => {
+  const start = parseDayStart(value);
+  return start === null ? null : start + 24 * 60 * 60 * 1000 - 1;
+};
+
+const parseCount = (value: string): number | null => {
+  if (value.trim() === '') {
+    return null;
+  }
+  const count = Number(value);
+  return Number.isFinite(count) ? count : null;
+};
+
+const isWithin = (time: number, from: number | null, to: number | null): boolean =>
+  (from === null || time >= from) && (to === null || time <= to);
+
+export const filterURLs = (urls: ShortenedURL[], filters: LinkFilters, now: Date = new Date()): ShortenedURL[] => {
+  const term = filters.search.toLowerCase();
+  const createdFrom = parseDayStart(filters.createdFrom);
+  const createdTo = parseDayEnd(filters.createdTo);
+  const expiresFrom = parseDayStart(filters.expiresFrom);
+  const expiresTo = parseDayEnd(filters.expiresTo);
+  const minClicks = parseCount(filters.minClicks);
+  const maxClicks = parseCount(filters.maxClicks);
+
+  return urls.filter(url => {
+    const matchesSearch = !term ||
+      url.originalUrl.toLowerCase().includes(term) ||
+      url.shortCode.toLowerCase().includes(term) ||
+      (url.note || '').toLowerCase().includes(term) ||
+      (url.folder || '').toLowerCase().includes(term) ||
+      (url.tags || []).some(tag => tag.includes(term));
+
+    return matchesSearch &&
+      (!filters.status || getURLStatus(url, now) === filters.status) &&
+      (!filters.tag || (url.tags || []).includes(filters.tag)) &&
+      (!filters.folder || url.folder === filters.folder) &&
+      isWithin(url.createdAt.getTime(), createdFrom, createdTo) &&
+      isWithin(url.expiresAt.getTime(), expiresFrom, expiresTo) &&
+      isWithin(countRealClicks(url.clicks), minClicks, maxClicks);
+  });
+};
+
+const STATUS_ORDER: Record<URLStatus, number> = { scheduled: 0, active: 1, expired: 2 };
+
+const compareBy = (field: LinkSortField, now: Date) => (a: ShortenedURL, b: ShortenedURL): number => {
+  switch (field) {
+    case 'shortCode':
+      return a.shortCode.localeCompare(b.shortCode);
+    case 'originalUrl':
+      return a.originalUrl.localeCompare(b.originalUrl);
+    case 'status':
+      return STATUS_ORDER[getURLStatus(a, now)] - STATUS_ORDER[getURLStatus(b, now)];
+    case 'clicks':
+      return countRealClicks(a.clicks) - countRealClicks(b.clicks);
+    case 'createdAt':
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case 'expiresAt':
+      return a.expiresAt.getTime() - b.expiresAt.getTime();
+  }
+};
+
+// Ties fall back to newest first so the order is stable between renders
+export const sortURLs = (urls: ShortenedURL[], field: LinkSortField, direction: SortDirection, now: Date = new Date()): ShortenedURL[] => {
+  const compare = compareBy(field, now);
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...urls].sort((a, b) => sign * compare(a, b) || b.createdAt.getTime() - a.createdAt.getTime());
+};
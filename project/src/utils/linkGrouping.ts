@@ -0,0 +1,46 @@
+import { LinkGroup, LinkGroupBy, ShortenedURL } from '../types';
+
+const UNGROUPED_KEY = '__ungrouped__';
+
+const getGroupKeys = (url: ShortenedURL, groupBy: LinkGroupBy): string[] => {
+  if (groupBy === 'folder') {
+    return [url.folder || UNGROUPED_KEY];
+  }
+  if (groupBy === 'tag') {
+    return url.tags && url.tags.length > 0 ? url.tags : [UNGROUPED_KEY];
+  }
+  if (groupBy === 'campaign') {
+    return [url.utm?.campaign || UNGROUPED_KEY];
+  }
+  return [UNGROUPED_KEY];
+};
+
+// A link with several tags appears in each of its tag groups
+export const groupURLs = (urls: ShortenedURL[], groupBy: LinkGroupBy): LinkGroup[] => {
+  const groups = new Map<string, ShortenedURL[]>();
+
+  urls.forEach(url => {
+    getGroupKeys(url, groupBy).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), url]);
+    });
+  });
+
+  const ungroupedLabel = {
+    none: 'All links',
+    folder: 'No folder',
+    tag: 'Untagged',
+    campaign: 'No campaign'
+  }[groupBy];
+
+  return Array.from(groups.entries())
+    .map(([key, groupUrls]) => ({
+      key,
+      label: key === UNGROUPED_KEY ? ungroupedLabel : key,
+      urls: groupUrls
+    }))
+    .sort((a, b) => {
+      if (a.key === UNGROUPED_KEY) return 1;
+      if (b.key === UNGROUPED_KEY) return -1;
+      return a.label.localeCompare(b.label);
+    });
+};
@@ -0,0 +1,52 @@
+import { logger } from '../services/loggingService';
+
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const bytesToHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export const generateSalt = (): string => {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+};
+
+export const hashPassword = async (password: string, salt: string): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const derivedBits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: hexToBytes(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    keyMaterial,
+    HASH_BITS
+  );
+
+  logger.debug('Password hashed', 'PasswordHash', { iterations: PBKDF2_ITERATIONS });
+  return bytesToHex(new Uint8Array(derivedBits));
+};
+
+export const verifyPassword = async (password: string, salt: string, expectedHash: string): Promise<boolean> => {
+  const actualHash = await hashPassword(password, salt);
+
+  // Compare every character so timing does not reveal how much of the hash matched
+  let difference = actualHash.length ^ expectedHash.length;
+  for (let i = 0; i < actualHash.length && i < expectedHash.length; i++) {
+    difference |= actualHash.charCodeAt(i) ^ expectedHash.charCodeAt(i);
+  }
+
+  return difference === 0;
+};
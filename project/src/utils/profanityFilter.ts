@@ -0,0 +1,76 @@
+import { WordLists } from '../types';
+import { logger } from '../services/loggingService';
+
+// Matched as substrings after leetspeak is undone, so "5h1t" and "shiiit" are caught too
+export const BUNDLED_BLOCKED_WORDS = [
+  'anal', 'anus', 'arse', 'ass', 'bastard', 'bitch', 'blowjob', 'bollock', 'boner', 'boob',
+  'cock', 'coon', 'crap', 'cum', 'cunt', 'dick', 'dildo', 'dyke', 'fag', 'fck', 'fuck', 'fuk',
+  'hitler', 'jizz', 'kike', 'kkk', 'milf', 'nazi', 'nigga', 'nigger', 'penis', 'piss', 'porn',
+  'prick', 'pussy', 'rape', 'retard', 'scrotum', 'sex', 'sht', 'shit', 'slut', 'spic', 'tit',
+  'twat', 'vagina', 'wank', 'whore', 'wtf', 'xxx'
+];
+
+// Ordinary words that contain a blocked word; the matching part is ignored inside them
+export const BUNDLED_ALLOWED_WORDS = [
+  'accumul', 'ambassador', 'analog', 'analy', 'appetit', 'assess', 'asset', 'assign', 'assist', 'assoc',
+  'assum', 'attitud', 'banal', 'bass', 'brass', 'canal', 'cassette', 'circum', 'class', 'cocktail',
+  'cockpit', 'cocoon', 'compass', 'competit', 'constitut', 'cucumber', 'cumul', 'dickens', 'document',
+  'drape', 'entitle', 'essex', 'glass', 'grape', 'grass', 'harass', 'institut', 'mass', 'parse',
+  'partition', 'pass', 'peacock', 'petit', 'quantit', 'raccoon', 'repetit', 'sass', 'scrap', 'scrape',
+  'sparse', 'spice', 'spicy', 'sussex', 'titan', 'title', 'tycoon'
+];
+
+// "1" reads as either i or l, so each code is checked once per reading
+const LEET_READINGS: Record<string, string>[] = [
+  { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '6': 'g', '7': 't', '8': 'b', '9': 'g' },
+  { '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '6': 'g', '7': 't', '8': 'b', '9': 'g' }
+];
+
+let customLists: WordLists = { allow: [], deny: [] };
+
+const toReading = (text: string, reading: Record<string, string>): string =>
+  [...text.toLowerCase().replace(/[^a-z0-9]/g, '')].map(char => reading[char] ?? char).join('');
+
+export const normalizeScreeningWord = (word: string): string => toReading(word, LEET_READINGS[0]);
+
+export const normalizeWordList = (words: string[]): string[] =>
+  [...new Set(words.map(normalizeScreeningWord).filter(word => word.length > 0))].sort();
+
+// Every plain-letter reading of the code
+export const getScreeningVariants = (shortcode: string): string[] =>
+  [...new Set(LEET_READINGS.map(reading => toReading(shortcode, reading)))];
+
+// Each letter may be stretched, so "fuuuck" matches "fuck" while "kkk" still needs three k's
+const toStretchPattern = (word: string): RegExp => new RegExp([...word].map(char => `${char}+`).join(''));
+
+export const getCustomWordLists = (): WordLists => ({
+  allow: [...customLists.allow],
+  deny: [...customLists.deny]
+});
+
+// Called by URLService once the lists saved next to the links are loaded or changed
+export const setCustomWordLists = (lists: WordLists): void => {
+  customLists = { allow: normalizeWordList(lists.allow), deny: normalizeWordList(lists.deny) };
+  logger.info('Custom word lists applied', 'ProfanityFilter', {
+    allow: customLists.allow.length,
+    deny: customLists.deny.length
+  });
+};
+
+export const findBlockedWord = (shortcode: string, lists: WordLists = customLists): string | null => {
+  const allowed = normalizeWordList([...BUNDLED_ALLOWED_WORDS, ...lists.allow]);
+  // Allow-listing a blocked word itself unblocks it everywhere
+  const blocked = normalizeWordList([...BUNDLED_BLOCKED_WORDS, ...lists.deny]).filter(word => !allowed.includes(word));
+
+  for (const variant of getScreeningVariants(shortcode)) {
+    const masked = allowed.reduce((text, word) => text.split(word).join('*'.repeat(word.length)), variant);
+    const match = blocked.find(word => toStretchPattern(word).test(masked));
+    if (match) {
+      logger.debug('Shortcode contains a blocked word', 'ProfanityFilter', { shortcode });
+      return match;
+    }
+  }
+  return null;
+};
+
+export const isBlockedShortcode = (shortcode: string): boolean => findBlockedWord(shortcode) !== null;
@@ -0,0 +1,117 @@
+import { ParsedUserAgent, RedirectRule, RedirectRuleConditions, ShortenedURL } from '../types';
+import { logger } from '../services/loggingService';
+import { DEVICE_LABELS } from './userAgentParser';
+import { WEEKDAY_LABELS, getWeekdayIndex } from './timeSeries';
+
+export const MAX_REDIRECT_RULES = 10;
+
+// What a rule can look at when a visitor arrives
+export interface RedirectRuleInput {
+  parsedUserAgent: ParsedUserAgent;
+  language: string;
+  referrer: string;
+  now: Date;
+}
+
+const matchesList = <T>(allowed: T[] | undefined, value: T): boolean =>
+  !allowed || allowed.length === 0 || allowed.includes(value);
+
+// 'pt' matches 'pt-BR', while 'pt-BR' only matches 'pt-BR'
+export const matchesLanguage = (prefixes: string[] | undefined, language: string): boolean => {
+  if (!prefixes || prefixes.length === 0) {
+    return true;
+  }
+  const normalized = language.toLowerCase();
+  return prefixes.some(prefix => {
+    const wanted = prefix.toLowerCase();
+    return normalized === wanted || normalized.startsWith(`${wanted}-`);
+  });
+};
+
+export const isWithinHours = (hour: number, fromHour?: number, toHour?: number): boolean => {
+  const from = fromHour ?? 0;
+  const to = toHour ?? 24;
+  // An empty window; validation rejects it, so only rules restored from old data end up here
+  if (from === to) {
+    return false;
+  }
+  // 22 to 6 covers the night, so the range wraps past midnight
+  return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+};
+
+export const hasConditions = (conditions: RedirectRuleConditions): boolean =>
+  !!(
+    conditions.os?.length ||
+    conditions.devices?.length ||
+    conditions.browsers?.length ||
+    conditions.languages?.length ||
+    conditions.weekdays?.length ||
+    conditions.fromHour !== undefined ||
+    conditions.toHour !== undefined ||
+    conditions.referrerContains
+  );
+
+export const matchesRedirectRule = (rule: RedirectRule, input: RedirectRuleInput): boolean => {
+  const { conditions } = rule;
+  const referrerContains = conditions.referrerContains?.toLowerCase();
+
+  return (
+    matchesList(conditions.os, input.parsedUserAgent.os) &&
+    matchesList(conditions.devices, input.parsedUserAgent.device) &&
+    matchesList(conditions.browsers, input.parsedUserAgent.browser) &&
+    matchesLanguage(conditions.languages, input.language) &&
+    matchesList(conditions.weekdays, getWeekdayIndex(input.now)) &&
+    isWithinHours(input.now.getHours(), conditions.fromHour, conditions.toHour) &&
+    (!referrerContains || input.referrer.toLowerCase().includes(referrerContains))
+  );
+};
+
+// First match wins, so more specific rules belong above broader ones
+export const findMatchingRedirectRule = (
+  rules: RedirectRule[] | undefined,
+  input: RedirectRuleInput
+): RedirectRule | undefined => {
+  const match = (rules || []).find(rule => matchesRedirectRule(rule, input));
+  logger.debug('Redirect rules evaluated', 'RedirectRules', { rules: rules?.length ?? 0, matched: match?.label });
+  return match;
+};
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+// One-line summary shown in the rule list, e.g. "iOS · de, fr · Mon, Tue · 09:00–17:00"
+export const describeRuleConditions = (conditions: RedirectRuleConditions): string => {
+  const parts: string[] = [];
+  if (conditions.os?.length) {
+    parts.push(conditions.os.join(', '));
+  }
+  if (conditions.devices?.length) {
+    parts.push(conditions.devices.map(device => DEVICE_LABELS[device]).join(', '));
+  }
+  if (conditions.browsers?.length) {
+    parts.push(conditions.browsers.join(', '));
+  }
+  if (conditions.languages?.length) {
+    parts.push(`Language ${conditions.languages.join(', ')}`);
+  }
+  if (conditions.weekdays?.length) {
+    parts.push([...conditions.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', '));
+  }
+  if (conditions.fromHour !== undefined || conditions.toHour !== undefined) {
+    parts.push(`${formatHour(conditions.fromHour ?? 0)}–${formatHour(conditions.toHour ?? 24)}`);
+  }
+  if (conditions.referrerContains) {
+    parts.push(`Referrer contains "${conditions.referrerContains}"`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Everyone';
+};
+
+// Clicks per rule id, for showing how often each rule fired
+export const countRuleMatches = (url: ShortenedURL): Map<string, number> => {
+  const counts = new Map<string, number>();
+  url.clicks.forEach(click => {
+    if (click.ruleId) {
+      counts.set(click.ruleId, (counts.get(click.ruleId) || 0) + 1);
+    }
+  });
+  return counts;
+};
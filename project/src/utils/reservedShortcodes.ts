@@ -0,0 +1,37 @@
+import { logger } from '../services/loggingService';
+import { settingsService } from '../services/settingsService';
+import { getRouteSegments } from './routes';
+
+// Paths the app or its hosting commonly claims even though no page uses them yet
+export const DEFAULT_RESERVED_SHORTCODES = [
+  'admin',
+  'api',
+  'app',
+  'assets',
+  'auth',
+  'dashboard',
+  'help',
+  'login',
+  'logout',
+  'logs',
+  'static',
+  'stats'
+];
+
+export const normalizeReservedShortcode = (value: string): string => value.trim().toLowerCase();
+
+export const getReservedShortcodes = (): string[] => {
+  const configured = settingsService.getSettings().reservedShortcodes;
+  return [...new Set([...getRouteSegments(), ...DEFAULT_RESERVED_SHORTCODES, ...configured].map(normalizeReservedShortcode))]
+    .filter(Boolean)
+    .sort();
+};
+
+// Route matching ignores case, so "Statistics" would be shadowed just like "statistics"
+export const isReservedShortcode = (shortcode: string): boolean => {
+  const isReserved = getReservedShortcodes().includes(normalizeReservedShortcode(shortcode));
+  if (isReserved) {
+    logger.debug('Shortcode is reserved', 'ReservedShortcodes', { shortcode });
+  }
+  return isReserved;
+};
@@ -0,0 +1,22 @@
+// Single source for app page paths; reserved shortcodes are derived from these so new pages cannot be shadowed
+export const APP_ROUTES = {
+  home: '/',
+  statistics: '/statistics',
+  linkDetails: '/statistics/:shortCode',
+  settings: '/settings',
+  redirect: '/:shortCode'
+} as const;
+
+// Links on branded domains carry their domain, since the same code may exist on several
+export const getLinkDetailsPath = (shortCode: string, domain?: string): string => {
+  const path = `${APP_ROUTES.statistics}/${encodeURIComponent(shortCode)}`;
+  return domain ? `${path}?${new URLSearchParams({ domain })}` : path;
+};
+
+// First path segment of every static route, e.g. "statistics" for "/statistics/:shortCode"
+export const getRouteSegments = (): string[] => {
+  const segments = Object.values(APP_ROUTES)
+    .map(path => path.split('/')[1])
+    .filter(segment => segment && !segment.startsWith(':'));
+  return [...new Set(segments)];
+};
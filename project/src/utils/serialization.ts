@@ -0,0 +1,35 @@
+import { ClickData, ShortenedURL, StoredClickData, StoredShortenedURL } from '../types';
+
+export const serializeClick = (click: ClickData): StoredClickData => ({
+  ...click,
+  timestamp: click.timestamp.toISOString()
+});
+
+export const deserializeClick = (click: StoredClickData): ClickData => ({
+  ...click,
+  timestamp: new Date(click.timestamp)
+});
+
+export const serializeURL = (url: ShortenedURL): StoredShortenedURL => ({
+  ...url,
+  createdAt: url.createdAt.toISOString(),
+  activatesAt: url.activatesAt?.toISOString(),
+  expiresAt: url.expiresAt.toISOString(),
+  clicks: url.clicks.map(serializeClick)
+});
+
+// Link fields without click history, for stores that keep clicks separately
+export const serializeLink = (url: ShortenedURL): Omit<StoredShortenedURL, 'clicks'> => {
+  const link: Omit<StoredShortenedURL, 'clicks'> & { clicks?: StoredClickData[] } = serializeURL({ ...url, clicks: [] });
+  delete link.clicks;
+  return link;
+};
+
+export const deserializeURL = (url: StoredShortenedURL): ShortenedURL => ({
+  ...url,
+  createdAt: new Date(url.createdAt),
+  activatesAt: url.activatesAt ? new Date(url.activatesAt) : undefined,
+  expiresAt: new Date(url.expiresAt),
+  isExpired: new Date() > new Date(url.expiresAt),
+  clicks: url.clicks.map(deserializeClick)
+});
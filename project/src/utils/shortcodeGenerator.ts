@@ -1,41 +1,135 @@
+import { ShortcodeStrategy } from '../types';
 import { logger } from '../services/loggingService';
+import { isReservedShortcode } from './reservedShortcodes';
+import { isBlockedShortcode } from './profanityFilter';
+import { shortcodesMatch } from './shortcodeMatching';
 
-export const generateShortcode = (length: number = 6): string => {
-  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+export const BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+// Without 0/O/o and 1/l/I, so codes survive being read aloud or retyped from print
+export const UNAMBIGUOUS_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz';
+
+export const DEFAULT_SHORTCODE_LENGTH = 6;
+export const MIN_SHORTCODE_LENGTH = 3;
+export const MAX_SHORTCODE_LENGTH = 20;
+
+const ATTEMPTS_PER_LENGTH = 10;
+// Start longer once a quarter of the keyspace is taken so random picks rarely collide
+const MAX_KEYSPACE_FILL = 0.25;
+
+export interface ShortcodeGenerationOptions {
+  strategy?: ShortcodeStrategy;
+  length?: number;
+  // Required by the hash strategy; other strategies ignore it
+  originalUrl?: string;
+  // First counter value the sequential strategy tries
+  sequenceStart?: number;
+}
+
+export const generateRandomShortcode = (
+  length: number = DEFAULT_SHORTCODE_LENGTH,
+  alphabet: string = BASE62_ALPHABET
+): string => {
+  const values = crypto.getRandomValues(new Uint32Array(length));
+  // 2^32 dwarfs the alphabet size, so the modulo bias is negligible
+  const result = Array.from(values, value => alphabet[value % alphabet.length]).join('');
+  logger.debug('Generated random shortcode', 'ShortcodeGenerator', { shortcode: result, length });
+  return result;
+};
+
+export const encodeBase62 = (value: number, minLength: number = 1): string => {
+  let remaining = Math.floor(value);
   let result = '';
-  
-  for (let i = 0; i < length; i++) {
-    result += characters.charAt(Math.floor(Math.random() * characters.length));
+  do {
+    result = BASE62_ALPHABET[remaining % 62] + result;
+    remaining = Math.floor(remaining / 62);
+  } while (remaining > 0);
+  return result.padStart(minLength, BASE62_ALPHABET[0]);
+};
+
+export const decodeBase62 = (code: string): number =>
+  [...code].reduce((value, char) => value * 62 + BASE62_ALPHABET.indexOf(char), 0);
+
+// cyrb53: a fast, well-mixed 53-bit string hash; security is not needed here, only spread
+export const hashString = (text: string, seed: number): number => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
   }
-  
-  logger.info('Generated shortcode', 'ShortcodeGenerator', { shortcode: result, length });
-  return result;
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+export const hashShortcode = (text: string, length: number = DEFAULT_SHORTCODE_LENGTH): string => {
+  let digest = '';
+  for (let seed = 0; digest.length < length; seed++) {
+    digest += encodeBase62(hashString(text, seed));
+  }
+  return digest.slice(0, length);
+};
+
+export const getStartingLength = (alphabetSize: number, minLength: number, takenCount: number): number => {
+  let length = Math.max(minLength, MIN_SHORTCODE_LENGTH);
+  while (length < MAX_SHORTCODE_LENGTH && Math.pow(alphabetSize, length) * MAX_KEYSPACE_FILL < takenCount) {
+    length++;
+  }
+  return length;
 };
 
 export const isShortcodeUnique = (shortcode: string, existingUrls: { shortCode: string }[]): boolean => {
-  const isUnique = !existingUrls.some(url => url.shortCode === shortcode);
+  const isUnique = !isReservedShortcode(shortcode) && !existingUrls.some(url => shortcodesMatch(url.shortCode, shortcode));
   logger.debug('Checking shortcode uniqueness', 'ShortcodeGenerator', { shortcode, isUnique });
   return isUnique;
 };
 
-export const generateUniqueShortcode = (existingUrls: { shortCode: string }[]): string => {
-  let attempts = 0;
-  const maxAttempts = 100;
-  
-  while (attempts < maxAttempts) {
-    const shortcode = generateShortcode();
-    if (isShortcodeUnique(shortcode, existingUrls)) {
-      logger.info('Generated unique shortcode', 'ShortcodeGenerator', { shortcode, attempts: attempts + 1 });
+const generateSequentialShortcode = (
+  existingUrls: { shortCode: string }[],
+  length: number,
+  sequenceStart: number
+): string => {
+  // Taken codes are finite, so the counter always reaches a free value
+  for (let sequence = Math.max(sequenceStart, 0); ; sequence++) {
+    const shortcode = encodeBase62(sequence, length);
+    if (isShortcodeUnique(shortcode, existingUrls) && !isBlockedShortcode(shortcode)) {
+      logger.info('Generated sequential shortcode', 'ShortcodeGenerator', { shortcode, sequence });
       return shortcode;
     }
-    attempts++;
   }
-  
-  // Fallback to timestamp-based shortcode
-  const fallbackShortcode = Date.now().toString(36);
-  logger.warn('Using fallback shortcode after max attempts', 'ShortcodeGenerator', { 
-    shortcode: fallbackShortcode, 
-    attempts 
-  });
-  return fallbackShortcode;
-};
\ No newline at end of file
+};
+
+export const generateUniqueShortcode = (
+  existingUrls: { shortCode: string }[],
+  options: ShortcodeGenerationOptions = {}
+): string => {
+  const { strategy = 'random', length: minLength = DEFAULT_SHORTCODE_LENGTH, originalUrl, sequenceStart = 0 } = options;
+
+  if (strategy === 'sequential') {
+    return generateSequentialShortcode(existingUrls, minLength, sequenceStart);
+  }
+
+  const alphabet = strategy === 'unambiguous' ? UNAMBIGUOUS_ALPHABET : BASE62_ALPHABET;
+  const startLength = getStartingLength(alphabet.length, minLength, existingUrls.length);
+
+  for (let length = startLength; length <= MAX_SHORTCODE_LENGTH; length++) {
+    for (let attempt = 0; attempt < ATTEMPTS_PER_LENGTH; attempt++) {
+      // Later hash attempts are salted so a taken digest still yields a stable alternative
+      const shortcode = strategy === 'hash' && originalUrl
+        ? hashShortcode(attempt === 0 ? originalUrl : `${originalUrl}#${attempt}`, length)
+        : generateRandomShortcode(length, alphabet);
+
+      // Blocked words are retried like collisions so nobody is handed an embarrassing code
+      if (isShortcodeUnique(shortcode, existingUrls) && !isBlockedShortcode(shortcode)) {
+        logger.info('Generated unique shortcode', 'ShortcodeGenerator', { shortcode, strategy, length, attempts: attempt + 1 });
+        return shortcode;
+      }
+    }
+
+    logger.warn('Growing shortcode length after repeated collisions', 'ShortcodeGenerator', { strategy, length });
+  }
+
+  logger.error('Shortcode keyspace exhausted', 'ShortcodeGenerator', { strategy, existing: existingUrls.length });
+  throw new Error('Could not generate a unique shortcode. Please enter a custom one.');
+};
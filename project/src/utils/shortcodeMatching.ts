@@ -0,0 +1,24 @@
+import { settingsService } from '../services/settingsService';
+import { logger } from '../services/loggingService';
+
+// Stored codes keep the casing they were created with; only comparisons are normalized
+export const normalizeShortcode = (
+  shortcode: string,
+  caseInsensitive: boolean = settingsService.getSettings().caseInsensitiveShortcodes
+): string => (caseInsensitive ? shortcode.toLowerCase() : shortcode);
+
+export const shortcodesMatch = (a: string, b: string): boolean => normalizeShortcode(a) === normalizeShortcode(b);
+
+// Groups of links on the same domain whose codes differ only by case, i.e. would collide with
+// case-insensitive matching
+export const findCaseCollisions = <T extends { shortCode: string; domain?: string }>(urls: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+  for (const url of urls) {
+    const key = `${url.domain || ''} ${normalizeShortcode(url.shortCode, true)}`;
+    groups.set(key, [...(groups.get(key) || []), url]);
+  }
+
+  const collisions = [...groups.values()].filter(group => group.length > 1);
+  logger.debug('Checked shortcode case collisions', 'ShortcodeMatching', { collisions: collisions.length });
+  return collisions;
+};
@@ -0,0 +1,43 @@
+import { logger } from '../services/loggingService';
+import { validateShortcode } from './validation';
+
+const DEFAULT_SUGGESTION_COUNT = 4;
+
+// Interleaves kinds of variation so the first few suggestions differ in more than a digit.
+// Invalid candidates (e.g. separators the current rules reject, or codes over the length
+// limit) are filtered out afterwards.
+const buildCandidates = (code: string, now: Date): string[] => {
+  const year = String(now.getFullYear());
+  const shortYear = year.slice(2);
+  return [
+    `${code}2`, `${code}${year}`, `${code}-${year}`, `${code}go`, `${code}_go`, `${code}-2`,
+    `${code}3`, `${code}${shortYear}`, `${code}now`, `${code}_2`, `my${code}`, `${code}-now`,
+    `${code}4`, `${code}link`, `${code}-${shortYear}`, `get${code}`, `${code}5`, `${code}-link`,
+    ...['6', '7', '8', '9'].map(digit => `${code}${digit}`)
+  ];
+};
+
+export const suggestShortcodes = (
+  requested: string,
+  isAvailable: (shortcode: string) => boolean,
+  count: number = DEFAULT_SUGGESTION_COUNT,
+  now: Date = new Date()
+): string[] => {
+  const code = requested.trim();
+  if (!code) {
+    return [];
+  }
+
+  const suggestions: string[] = [];
+  for (const candidate of buildCandidates(code, now)) {
+    if (suggestions.length >= count) {
+      break;
+    }
+    if (!suggestions.includes(candidate) && validateShortcode(candidate).isValid && isAvailable(candidate)) {
+      suggestions.push(candidate);
+    }
+  }
+
+  logger.debug('Built shortcode suggestions', 'ShortcodeSuggestions', { requested: code, suggestions });
+  return suggestions;
+};
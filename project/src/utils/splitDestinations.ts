@@ -0,0 +1,75 @@
+import { ShortenedURL, SplitDestination, SplitVariantStatistics } from '../types';
+import { logger } from '../services/loggingService';
+import { hashString } from './shortcodeGenerator';
+import { getClickMetrics } from './clickMetrics';
+
+export const MAX_SPLIT_DESTINATIONS = 5;
+export const MAX_SPLIT_WEIGHT = 100;
+
+export const getActiveSplitDestinations = (url: ShortenedURL): SplitDestination[] =>
+  (url.splitDestinations || []).filter(destination => destination.weight > 0);
+
+// Maps a visitor to a point in [0, 1) that stays the same for the whole session
+const getSessionPoint = (linkId: string, sessionId: string): number =>
+  hashString(`${linkId}:${sessionId}`, 0) / 2 ** 53;
+
+const pickByWeight = (destinations: SplitDestination[], point: number): SplitDestination => {
+  const totalWeight = destinations.reduce((sum, destination) => sum + destination.weight, 0);
+  let threshold = point * totalWeight;
+  for (const destination of destinations) {
+    threshold -= destination.weight;
+    if (threshold < 0) {
+      return destination;
+    }
+  }
+  return destinations[destinations.length - 1];
+};
+
+// Sticky per visitor session: a returning session keeps its earlier variant even after the
+// weights change, and a new session lands on the same variant every time it is asked
+export const pickSplitDestination = (url: ShortenedURL, sessionId: string): SplitDestination | undefined => {
+  const destinations = getActiveSplitDestinations(url);
+  if (destinations.length === 0) {
+    return undefined;
+  }
+
+  const previousVariantId = [...url.clicks]
+    .reverse()
+    .find(click => click.sessionId === sessionId && click.variantId)?.variantId;
+  const previous = destinations.find(destination => destination.id === previousVariantId);
+  if (previous) {
+    logger.debug('Split destination reused for session', 'SplitDestinations', { variantId: previous.id });
+    return previous;
+  }
+
+  const picked = pickByWeight(destinations, getSessionPoint(url.id, sessionId));
+  logger.debug('Split destination picked', 'SplitDestinations', { variantId: picked.id, label: picked.label });
+  return picked;
+};
+
+// Only clicks recorded while the split was running are counted, so shares add up to 100
+export const getSplitVariantStatistics = (url: ShortenedURL): SplitVariantStatistics[] => {
+  const destinations = url.splitDestinations || [];
+  const totalWeight = destinations.reduce((sum, destination) => sum + destination.weight, 0);
+  const splitClicks = url.clicks.filter(click => click.variantId && !click.isDemo);
+
+  return destinations.map(destination => {
+    const clicks = splitClicks.filter(click => click.variantId === destination.id);
+    return {
+      id: destination.id,
+      label: destination.label,
+      url: destination.url,
+      weight: destination.weight,
+      targetShare: totalWeight > 0 ? Math.round((destination.weight / totalWeight) * 100) : 0,
+      clicks: clicks.length,
+      uniqueVisitors: getClickMetrics(clicks).uniqueVisitors,
+      share: splitClicks.length > 0 ? Math.round((clicks.length / splitClicks.length) * 100) : 0
+    };
+  });
+};
+
+// Clicks whose variant has since been removed from the split
+export const countRemovedVariantClicks = (url: ShortenedURL): number => {
+  const currentIds = new Set((url.splitDestinations || []).map(destination => destination.id));
+  return url.clicks.filter(click => click.variantId && !click.isDemo && !currentIds.has(click.variantId)).length;
+};
@@ -0,0 +1,16 @@
+export const MAX_TAGS_PER_URL = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+};
+
+export const normalizeTags = (tags: string[]): string[] => {
+  const normalized = tags.map(normalizeTag).filter(tag => tag.length > 0);
+  return Array.from(new Set(normalized));
+};
+
+// Accepts "promo, summer; email" style input used by text fields and CSV cells
+export const parseTagInput = (input: string): string[] => {
+  return normalizeTags(input.split(/[,;|]/));
+};
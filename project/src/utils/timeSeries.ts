@@ -0,0 +1,102 @@
+import { ClickData, DateRange, TimeBucket, TimeSeriesPoint } from '../types';
+import { logger } from '../services/loggingService';
+
+export const MAX_CHART_BUCKETS = 400;
+
+export type RangePreset = '24h' | '7d' | '30d' | '90d' | 'all' | 'custom';
+
+export const RANGE_PRESETS: { value: RangePreset; label: string; hours?: number; bucket: TimeBucket }[] = [
+  { value: '24h', label: 'Last 24 hours', hours: 24, bucket: 'hour' },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7, bucket: 'day' },
+  { value: '30d', label: 'Last 30 days', hours: 24 * 30, bucket: 'day' },
+  { value: '90d', label: 'Last 90 days', hours: 24 * 90, bucket: 'week' },
+  { value: 'all', label: 'All time', bucket: 'day' },
+  { value: 'custom', label: 'Custom range', bucket: 'day' }
+];
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Monday-based weekday index, so weeks and heatmap rows line up
+export const getWeekdayIndex = (date: Date): number => (date.getDay() + 6) % 7;
+
+export const getBucketStart = (date: Date, bucket: TimeBucket): Date => {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  if (bucket === 'day' || bucket === 'week') {
+    start.setHours(0);
+  }
+  if (bucket === 'week') {
+    start.setDate(start.getDate() - getWeekdayIndex(start));
+  }
+  return start;
+};
+
+// Calendar arithmetic instead of fixed milliseconds so daylight-saving days stay aligned
+const nextBucketStart = (start: Date, bucket: TimeBucket): Date => {
+  const next = new Date(start);
+  if (bucket === 'hour') {
+    next.setHours(next.getHours() + 1);
+  } else {
+    next.setDate(next.getDate() + (bucket === 'week' ? 7 : 1));
+  }
+  return next;
+};
+
+export const getPresetRange = (preset: RangePreset, clicks: ClickData[], now: Date = new Date()): DateRange => {
+  const hours = RANGE_PRESETS.find(option => option.value === preset)?.hours;
+  if (hours) {
+    return { start: new Date(now.getTime() - hours * 60 * 60 * 1000), end: now };
+  }
+
+  const earliest = clicks.reduce(
+    (min, click) => Math.min(min, click.timestamp.getTime()),
+    now.getTime() - 24 * 60 * 60 * 1000
+  );
+  return { start: new Date(earliest), end: now };
+};
+
+export const countBuckets = (range: DateRange, bucket: TimeBucket): number => {
+  const bucketHours = bucket === 'hour' ? 1 : bucket === 'day' ? 24 : 24 * 7;
+  return Math.ceil((range.end.getTime() - getBucketStart(range.start, bucket).getTime()) / (bucketHours * 60 * 60 * 1000));
+};
+
+export const filterClicksInRange = (clicks: ClickData[], range: DateRange): ClickData[] =>
+  clicks.filter(click => click.timestamp >= range.start && click.timestamp <= range.end);
+
+// Every bucket in the range is returned, including empty ones, so gaps show as zero
+export const buildClickTimeSeries = (clicks: ClickData[], bucket: TimeBucket, range: DateRange): TimeSeriesPoint[] => {
+  const counts = new Map<number, number>();
+  for (const click of filterClicksInRange(clicks, range)) {
+    const key = getBucketStart(click.timestamp, bucket).getTime();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const points: TimeSeriesPoint[] = [];
+  for (
+    let start = getBucketStart(range.start, bucket);
+    start <= range.end && points.length < MAX_CHART_BUCKETS;
+    start = nextBucketStart(start, bucket)
+  ) {
+    points.push({ start, count: counts.get(start.getTime()) || 0 });
+  }
+
+  logger.debug('Built click time series', 'TimeSeries', { bucket, points: points.length });
+  return points;
+};
+
+// counts[weekday][hour], weekday 0 = Monday
+export const buildHourWeekdayHeatmap = (clicks: ClickData[]): number[][] => {
+  const counts = WEEKDAY_LABELS.map(() => Array<number>(24).fill(0));
+  for (const click of clicks) {
+    counts[getWeekdayIndex(click.timestamp)][click.timestamp.getHours()]++;
+  }
+  return counts;
+};
+
+export const formatBucketLabel = (start: Date, bucket: TimeBucket): string => {
+  const day = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  if (bucket === 'hour') {
+    return `${day} ${start.getHours().toString().padStart(2, '0')}:00`;
+  }
+  return bucket === 'week' ? `Week of ${day}` : day;
+};
@@ -0,0 +1,37 @@
+import { logger } from '../services/loggingService';
+
+// Click identifiers added by ad platforms and mail tools; utm_* parameters are matched by prefix
+export const TRACKING_PARAMS = ['fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'yclid', '_ga'];
+
+export interface CanonicalizeOptions {
+  // Also drop tracking parameters and the #fragment, so tagged copies of a page compare equal
+  ignoreTracking?: boolean;
+}
+
+export const isTrackingParam = (key: string): boolean => {
+  const lowerKey = key.toLowerCase();
+  return lowerKey.startsWith('utm_') || TRACKING_PARAMS.includes(lowerKey);
+};
+
+// Parsing already lowercases the scheme and host, drops default ports and resolves dot segments;
+// sorting the query makes parameter order irrelevant. Unparseable input is returned trimmed.
+export const canonicalizeURL = (value: string, options: CanonicalizeOptions = {}): string => {
+  try {
+    const url = new URL(value.trim());
+    url.hostname = url.hostname.replace(/\.$/, '');
+
+    if (options.ignoreTracking) {
+      [...url.searchParams.keys()].filter(isTrackingParam).forEach(key => url.searchParams.delete(key));
+      url.hash = '';
+    }
+    url.searchParams.sort();
+
+    return url.toString();
+  } catch (error) {
+    logger.debug('Could not canonicalize URL', 'URLCanonicalization', { value, error });
+    return value.trim();
+  }
+};
+
+export const isSameDestination = (a: string, b: string, options: CanonicalizeOptions = {}): boolean =>
+  canonicalizeURL(a, options) === canonicalizeURL(b, options);
@@ -0,0 +1,17 @@
+import { ShortenedURL, URLStatus } from '../types';
+
+export const URL_STATUS_DISPLAY: Record<URLStatus, { label: string; color: 'info' | 'success' | 'error' }> = {
+  scheduled: { label: 'Scheduled', color: 'info' },
+  active: { label: 'Active', color: 'success' },
+  expired: { label: 'Expired', color: 'error' }
+};
+
+export const getURLStatus = (
+  url: Pick<ShortenedURL, 'activatesAt' | 'expiresAt'>,
+  now: Date = new Date()
+): URLStatus => {
+  if (url.activatesAt && now < url.activatesAt) {
+    return 'scheduled';
+  }
+  return now > url.expiresAt ? 'expired' : 'active';
+};
@@ -0,0 +1,78 @@
+import { ClickData, DeviceType, ParsedUserAgent } from '../types';
+import { isBotUserAgent } from './botDetection';
+
+interface Matcher {
+  name: string;
+  pattern: RegExp;
+}
+
+// Order matters: Chromium-based browsers also advertise "Chrome" and "Safari", Chrome advertises "Safari"
+const BROWSERS: Matcher[] = [
+  { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/([\d.]+)/ },
+  { name: 'Opera', pattern: /(?:OPR|Opera)\/([\d.]+)/ },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+  { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+  { name: 'Safari', pattern: /Version\/([\d.]+).*Safari\// },
+  { name: 'Internet Explorer', pattern: /(?:MSIE |Trident\/.*rv:)([\d.]+)/ }
+];
+
+const OPERATING_SYSTEMS: Matcher[] = [
+  { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+  { name: 'Android', pattern: /Android/ },
+  { name: 'Windows', pattern: /Windows/ },
+  { name: 'ChromeOS', pattern: /CrOS/ },
+  { name: 'macOS', pattern: /Macintosh|Mac OS X/ },
+  { name: 'Linux', pattern: /Linux|X11/ }
+];
+
+// Values a parsed user agent can report, for pickers that match on them
+export const BROWSER_NAMES = [...BROWSERS.map(browser => browser.name), 'Other'];
+export const OPERATING_SYSTEM_NAMES = [...OPERATING_SYSTEMS.map(os => os.name), 'Other'];
+
+export const DEVICE_LABELS: Record<DeviceType, string> = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  bot: 'Bot'
+};
+
+const detectDevice = (userAgent: string): DeviceType => {
+  if (isBotUserAgent(userAgent)) {
+    return 'bot';
+  }
+  // Android tablets omit "Mobile"; iPads on iPadOS 13+ report as Macintosh and are counted as desktop
+  if (/iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/Mobi|iPhone|iPod|Android|Windows Phone/i.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+};
+
+export const parseUserAgent = (userAgent: string): ParsedUserAgent => {
+  const browserMatch = BROWSERS
+    .map(({ name, pattern }) => ({ name, match: userAgent.match(pattern) }))
+    .find(({ match }) => match !== null);
+  const os = OPERATING_SYSTEMS.find(({ pattern }) => pattern.test(userAgent));
+  const device = detectDevice(userAgent);
+
+  return {
+    browser: browserMatch?.name ?? (device === 'bot' ? 'Bot' : 'Other'),
+    browserVersion: browserMatch?.match?.[1]?.split('.')[0],
+    os: os?.name ?? 'Other',
+    device
+  };
+};
+
+// Clicks recorded before parsing existed only have the raw string, so parse those on the fly
+export const getClickUserAgent = (click: ClickData): ParsedUserAgent =>
+  click.browser && click.os && click.device
+    ? { browser: click.browser, browserVersion: click.browserVersion, os: click.os, device: click.device }
+    : parseUserAgent(click.userAgent);
+
+export const formatUserAgent = (parsed: ParsedUserAgent): string => {
+  const browser = parsed.browserVersion ? `${parsed.browser} ${parsed.browserVersion}` : parsed.browser;
+  return `${browser} · ${parsed.os} · ${DEVICE_LABELS[parsed.device]}`;
+};
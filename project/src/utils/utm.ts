@@ -0,0 +1,58 @@
+import { UTMParams } from '../types';
+import { logger } from '../services/loggingService';
+
+export const UTM_FIELDS: { key: keyof UTMParams; param: string; label: string; placeholder: string }[] = [
+  { key: 'source', param: 'utm_source', label: 'Source', placeholder: 'newsletter' },
+  { key: 'medium', param: 'utm_medium', label: 'Medium', placeholder: 'email' },
+  { key: 'campaign', param: 'utm_campaign', label: 'Campaign', placeholder: 'spring_sale' },
+  { key: 'term', param: 'utm_term', label: 'Term', placeholder: 'running shoes' },
+  { key: 'content', param: 'utm_content', label: 'Content', placeholder: 'header_banner' }
+];
+
+export const REQUIRED_UTM_FIELDS: (keyof UTMParams)[] = ['source', 'medium', 'campaign'];
+
+// Lowercased and trimmed so "Facebook" and "facebook " land in the same campaign report
+export const normalizeUTMParams = (utm?: UTMParams): UTMParams | undefined => {
+  if (!utm) {
+    return undefined;
+  }
+
+  const normalized: UTMParams = {};
+  UTM_FIELDS.forEach(({ key }) => {
+    const value = utm[key]?.trim().toLowerCase();
+    if (value) {
+      normalized[key] = value;
+    }
+  });
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+export const isSameUTMParams = (a?: UTMParams, b?: UTMParams): boolean => {
+  const normalizedA = normalizeUTMParams(a);
+  const normalizedB = normalizeUTMParams(b);
+  return UTM_FIELDS.every(({ key }) => normalizedA?.[key] === normalizedB?.[key]);
+};
+
+// Replaces any utm_* values already in the URL; unparseable URLs are returned as-is for validateURL to reject
+export const applyUTMParams = (url: string, utm?: UTMParams): string => {
+  const normalized = normalizeUTMParams(utm);
+  if (!normalized) {
+    return url;
+  }
+
+  try {
+    const target = new URL(url.trim());
+    UTM_FIELDS.forEach(({ key, param }) => {
+      const value = normalized[key];
+      if (value) {
+        target.searchParams.set(param, value);
+      } else {
+        target.searchParams.delete(param);
+      }
+    });
+    return target.toString();
+  } catch (error) {
+    logger.debug('Could not apply UTM parameters', 'UTM', { url, error });
+    return url;
+  }
+};
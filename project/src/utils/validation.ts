@@ -1,4 +1,11 @@
 import { logger } from '../services/loggingService';
+import { MAX_TAGS_PER_URL, MAX_TAG_LENGTH } from './tags';
+import { isReservedShortcode } from './reservedShortcodes';
+import { isBlockedShortcode } from './profanityFilter';
+import { RedirectRule, SplitDestination, UTMParams } from '../types';
+import { REQUIRED_UTM_FIELDS, normalizeUTMParams } from './utm';
+import { MAX_SPLIT_DESTINATIONS, MAX_SPLIT_WEIGHT } from './splitDestinations';
+import { MAX_REDIRECT_RULES, hasConditions } from './redirectRules';
 
 export const validateURL = (url: string): { isValid: boolean; error?: string } => {
   logger.debug('Validating URL', 'ValidationUtils', { url });
@@ -20,6 +27,25 @@ export const validateURL = (url: string): { isValid: boolean; error?: string } =
   }
 };
 
+// Length and characters only; existing links restored from a backup are checked with just this
+export const validateShortcodeFormat = (shortcode: string): { isValid: boolean; error?: string } => {
+  // Hyphens and underscores only between letters or numbers, so slugs like "summer-sale-2026" read cleanly
+  const shortcodeRegex = /^[a-zA-Z0-9]+(?:[-_][a-zA-Z0-9]+)*$/;
+  
+  if (shortcode.length < 3 || shortcode.length > 20) {
+    return { isValid: false, error: 'Shortcode must be between 3 and 20 characters' };
+  }
+
+  if (!shortcodeRegex.test(shortcode)) {
+    return {
+      isValid: false,
+      error: 'Shortcode can contain letters, numbers, and single hyphens or underscores between them'
+    };
+  }
+
+  return { isValid: true };
+};
+
 export const validateShortcode = (shortcode: string): { isValid: boolean; error?: string } => {
   logger.debug('Validating shortcode', 'ValidationUtils', { shortcode });
   
@@ -27,14 +53,17 @@ export const validateShortcode = (shortcode: string): { isValid: boolean; error?
     return { isValid: true }; // Optional field
   }
 
-  const alphanumericRegex = /^[a-zA-Z0-9]+$/;
-  
-  if (shortcode.length < 3 || shortcode.length > 20) {
-    return { isValid: false, error: 'Shortcode must be between 3 and 20 characters' };
+  const formatValidation = validateShortcodeFormat(shortcode);
+  if (!formatValidation.isValid) {
+    return formatValidation;
+  }
+
+  if (isReservedShortcode(shortcode)) {
+    return { isValid: false, error: `"${shortcode}" is reserved by the app. Please choose a different shortcode.` };
   }
 
-  if (!alphanumericRegex.test(shortcode)) {
-    return { isValid: false, error: 'Shortcode must contain only letters and numbers' };
+  if (isBlockedShortcode(shortcode)) {
+    return { isValid: false, error: 'Shortcode contains a blocked word. Please choose a different one.' };
   }
 
   logger.info('Shortcode validation successful', 'ValidationUtils', { shortcode });
@@ -54,4 +83,205 @@ export const validateValidityMinutes = (minutes: number): { isValid: boolean; er
 
   logger.info('Validity minutes validation successful', 'ValidationUtils', { minutes });
   return { isValid: true };
+};
+
+export const validateMaxClicks = (maxClicks?: number): { isValid: boolean; error?: string } => {
+  logger.debug('Validating click limit', 'ValidationUtils', { maxClicks });
+
+  if (maxClicks === undefined) {
+    return { isValid: true }; // Optional field
+  }
+
+  if (!Number.isInteger(maxClicks) || maxClicks <= 0) {
+    return { isValid: false, error: 'Click limit must be a positive integer' };
+  }
+
+  if (maxClicks > 1000000) {
+    return { isValid: false, error: 'Click limit cannot exceed 1,000,000' };
+  }
+
+  logger.info('Click limit validation successful', 'ValidationUtils', { maxClicks });
+  return { isValid: true };
+};
+
+export const validatePassword = (password?: string): { isValid: boolean; error?: string } => {
+  logger.debug('Validating link password', 'ValidationUtils', { provided: !!password });
+
+  if (!password) {
+    return { isValid: true }; // Optional field
+  }
+
+  if (password.length < 4) {
+    return { isValid: false, error: 'Password must be at least 4 characters' };
+  }
+
+  if (password.length > 128) {
+    return { isValid: false, error: 'Password cannot exceed 128 characters' };
+  }
+
+  return { isValid: true };
+};
+
+export const validateActivationDate = (activatesAt?: Date): { isValid: boolean; error?: string } => {
+  logger.debug('Validating activation date', 'ValidationUtils', { activatesAt });
+
+  if (!activatesAt) {
+    return { isValid: true }; // Optional field
+  }
+
+  if (isNaN(activatesAt.getTime())) {
+    return { isValid: false, error: 'Activation must be a valid date and time' };
+  }
+
+  if (activatesAt <= new Date()) {
+    return { isValid: false, error: 'Activation time must be in the future' };
+  }
+
+  logger.info('Activation date validation successful', 'ValidationUtils', { activatesAt });
+  return { isValid: true };
+};
+
+export const validateTags = (tags?: string[]): { isValid: boolean; error?: string } => {
+  logger.debug('Validating tags', 'ValidationUtils', { tags });
+
+  if (!tags || tags.length === 0) {
+    return { isValid: true }; // Optional field
+  }
+
+  if (tags.length > MAX_TAGS_PER_URL) {
+    return { isValid: false, error: `No more than ${MAX_TAGS_PER_URL} tags per link` };
+  }
+
+  const invalidTag = tags.find(tag => tag.length > MAX_TAG_LENGTH || !/^[a-z0-9_-]+$/.test(tag));
+  if (invalidTag) {
+    return {
+      isValid: false,
+      error: `Tag "${invalidTag}" must be at most ${MAX_TAG_LENGTH} characters of letters, numbers, - or _`
+    };
+  }
+
+  return { isValid: true };
+};
+
+export const validateFolder = (folder?: string): { isValid: boolean; error?: string } => {
+  if (folder && folder.trim().length > 50) {
+    return { isValid: false, error: 'Folder name cannot exceed 50 characters' };
+  }
+  return { isValid: true };
+};
+
+export const validateNote = (note?: string): { isValid: boolean; error?: string } => {
+  if (note && note.length > 500) {
+    return { isValid: false, error: 'Note cannot exceed 500 characters' };
+  }
+  return { isValid: true };
+};
+
+export const validateUTMParams = (utm?: UTMParams): { isValid: boolean; error?: string } => {
+  const normalized = normalizeUTMParams(utm);
+  if (!normalized) {
+    return { isValid: true }; // Optional field
+  }
+
+  const missing = REQUIRED_UTM_FIELDS.filter(field => !normalized[field]);
+  if (missing.length > 0) {
+    return { isValid: false, error: `Campaign tracking also needs ${missing.join(', ')}` };
+  }
+
+  const tooLong = Object.values(normalized).find(value => value.length > 100);
+  if (tooLong) {
+    return { isValid: false, error: 'UTM values cannot exceed 100 characters' };
+  }
+
+  return { isValid: true };
+};
+
+// An empty list is valid and means the link has no split
+export const validateSplitDestinations = (destinations: SplitDestination[]): { isValid: boolean; error?: string } => {
+  if (destinations.length === 0) {
+    return { isValid: true };
+  }
+
+  if (destinations.length < 2) {
+    return { isValid: false, error: 'A split needs at least two destinations' };
+  }
+
+  if (destinations.length > MAX_SPLIT_DESTINATIONS) {
+    return { isValid: false, error: `A split can have at most ${MAX_SPLIT_DESTINATIONS} destinations` };
+  }
+
+  const labels = new Set<string>();
+  for (const destination of destinations) {
+    const label = destination.label.trim();
+    if (!label) {
+      return { isValid: false, error: 'Every destination needs a label' };
+    }
+    if (labels.has(label.toLowerCase())) {
+      return { isValid: false, error: `The label "${label}" is used more than once` };
+    }
+    labels.add(label.toLowerCase());
+
+    const urlValidation = validateURL(destination.url.trim());
+    if (!urlValidation.isValid) {
+      return { isValid: false, error: `${label}: ${urlValidation.error}` };
+    }
+
+    if (!Number.isInteger(destination.weight) || destination.weight < 0 || destination.weight > MAX_SPLIT_WEIGHT) {
+      return { isValid: false, error: `${label}: weight must be a whole number from 0 to ${MAX_SPLIT_WEIGHT}` };
+    }
+  }
+
+  if (destinations.every(destination => destination.weight === 0)) {
+    return { isValid: false, error: 'At least one destination needs a weight above 0' };
+  }
+
+  return { isValid: true };
+};
+
+const isValidHour = (hour?: number): boolean =>
+  hour === undefined || (Number.isInteger(hour) && hour >= 0 && hour <= 24);
+
+export const validateRedirectRules = (rules: RedirectRule[]): { isValid: boolean; error?: string } => {
+  if (rules.length > MAX_REDIRECT_RULES) {
+    return { isValid: false, error: `A link can have at most ${MAX_REDIRECT_RULES} redirect rules` };
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const label = rule.label.trim() || `Rule ${index + 1}`;
+
+    const urlValidation = validateURL(rule.url.trim());
+    if (!urlValidation.isValid) {
+      return { isValid: false, error: `${label}: ${urlValidation.error}` };
+    }
+
+    // A rule without conditions would catch every visitor and hide everything below it
+    if (!hasConditions(rule.conditions)) {
+      return { isValid: false, error: `${label}: add at least one condition` };
+    }
+
+    if (!isValidHour(rule.conditions.fromHour) || !isValidHour(rule.conditions.toHour)) {
+      return { isValid: false, error: `${label}: hours must be whole numbers from 0 to 24` };
+    }
+
+    if ((rule.conditions.fromHour ?? 0) === (rule.conditions.toHour ?? 24)) {
+      return { isValid: false, error: `${label}: the "from" and "to" hours must differ` };
+    }
+  }
+
+  return { isValid: true };
+};
+
+export const validateExpiryDate = (expiresAt: Date, activeFrom: Date): { isValid: boolean; error?: string } => {
+  logger.debug('Validating expiry date', 'ValidationUtils', { expiresAt, activeFrom });
+
+  if (isNaN(expiresAt.getTime())) {
+    return { isValid: false, error: 'Expiry must be a valid date and time' };
+  }
+
+  if (expiresAt <= activeFrom) {
+    return { isValid: false, error: 'Expiry must be after the link becomes active' };
+  }
+
+  logger.info('Expiry date validation successful', 'ValidationUtils', { expiresAt });
+  return { isValid: true };
 };
\ No newline at end of file
@@ -0,0 +1,18 @@
+const SESSION_KEY = 'url_shortener_visitor_session';
+
+// Identifies one browser tab session; sessionStorage clears when the tab closes
+export const getVisitorSessionId = (): string => {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY);
+    if (existing) {
+      return existing;
+    }
+
+    const sessionId = Date.now().toString(36) + Math.random().toString(36).substr(2);
+    sessionStorage.setItem(SESSION_KEY, sessionId);
+    return sessionId;
+  } catch {
+    // Storage can be blocked (e.g. some private modes); fall back to a per-page-load id
+    return 'anon-' + Math.random().toString(36).substr(2);
+  }
+};